@@ -1,82 +1,423 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { generateScenario, generateAudio, getWordDefinition } from './services/geminiService';
-import { Scenario, AppStatus, Level, VocabularyItem, Topic, Duration } from './types';
-import { VoicePlayer } from './components/VoicePlayer';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { generateScenario, generateTailoredInterview, generateAudio, getWordDefinition } from './services/geminiService';
+import { Scenario, AppStatus, Level, VocabularyItem, TurnTiming, DraftScenario, TopicId, Duration, AudioVariants, LibraryEntry, LearnerProfile, InterviewSource, TopicDefinition } from './types';
+import { VoicePlayer, VoicePlayerHandle, PlayerTurn } from './components/VoicePlayer';
+import { LibraryPanel } from './components/LibraryPanel';
+import { describeError, ErrorCategory, ErrorDetails } from './services/errors';
+import { throwIfCancelled } from './services/retry';
+import { ReviewScreen } from './components/ReviewScreen';
+import { RolePlayPanel } from './components/RolePlayPanel';
+import { QuizPanel } from './components/QuizPanel';
+import { DictationPanel } from './components/DictationPanel';
+import { AnswerPracticePanel } from './components/AnswerPracticePanel';
+import { ExportMenu } from './components/ExportMenu';
+import { LexiconTransfer } from './components/LexiconTransfer';
+import { SettingsScreen } from './components/SettingsScreen';
+import { DashboardScreen } from './components/DashboardScreen';
+import { InterviewSourcePanel } from './components/InterviewSourcePanel';
+import { DraftDialogue } from './components/DraftDialogue';
+import { TurnText } from './components/TurnText';
+import { LexiconCard } from './components/LexiconCard';
+import { scheduleLibrarySave, flushLibrarySave, cancelLibrarySave } from './services/libraryService';
+import { createAudioStream, AudioStream } from './services/audioStream';
+import { getProfile, DEFAULT_PROFILE } from './services/profileService';
+import { listTopics, findTopic, BUILT_IN_TOPICS, INTERVIEW_TOPIC_ID } from './services/topicService';
+import { getLanguage, translationAttrs } from './services/languages';
+import { findPhraseSpans } from './services/phrases';
+import { findInterviewQuestions } from './services/answerService';
+import { startSession, SessionTracker } from './services/analyticsService';
+import { CEFR_LEVELS } from './services/validation';
+import { addToDeck, addScenarioVocabulary, countDueCards, findSourceSentence } from './services/deckService';
+
+// One colour per participant, in the order they are listed in the scenario.
+const SPEAKER_STYLES = [
+  { bubble: 'bg-slate-700/90 text-slate-100', dot: 'bg-slate-400', wave: '#94a3b8' },
+  { bubble: 'bg-sky-600 text-white', dot: 'bg-sky-300', wave: '#7dd3fc' },
+  { bubble: 'bg-violet-700/90 text-white', dot: 'bg-violet-300', wave: '#c4b5fd' },
+  { bubble: 'bg-emerald-700/90 text-white', dot: 'bg-emerald-300', wave: '#6ee7b7' },
+  { bubble: 'bg-amber-700/90 text-white', dot: 'bg-amber-300', wave: '#fcd34d' },
+  { bubble: 'bg-rose-700/90 text-white', dot: 'bg-rose-300', wave: '#fda4af' }
+];
+
+// Playback updates arrive several times a second; a bigger jump is a seek or a paused tab, not listening.
+const MAX_LISTENING_STEP = 1;
+
+type LexiconSort = 'recent' | 'easiest' | 'hardest';
+
+const LEXICON_SORTS: { id: LexiconSort; label: string }[] = [
+  { id: 'recent', label: 'Recent' },
+  { id: 'easiest', label: 'Easiest' },
+  { id: 'hardest', label: 'Hardest' }
+];
+
+const ERROR_ACTIONS: Record<ErrorCategory, { label: string; tone: string }> = {
+  auth: { label: 'Check Again', tone: 'bg-red-500/10 border-red-500/40 text-red-300' },
+  quota: { label: 'Retry', tone: 'bg-amber-500/10 border-amber-500/40 text-amber-200' },
+  safety: { label: 'Try Another Dialogue', tone: 'bg-orange-500/10 border-orange-500/40 text-orange-200' },
+  malformed: { label: 'Generate Again', tone: 'bg-red-500/10 border-red-500/40 text-red-300' },
+  network: { label: 'Retry', tone: 'bg-amber-500/10 border-amber-500/40 text-amber-200' },
+  cancelled: { label: 'Start Again', tone: 'bg-slate-800/60 border-slate-700 text-slate-300' },
+  unknown: { label: 'Try Again', tone: 'bg-red-500/10 border-red-500/40 text-red-300' }
+};
+
+interface PendingLookup {
+  word: string;
+  context: string;
+  profile: LearnerProfile;
+  scenarioId?: string;
+}
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [selectedLevel, setSelectedLevel] = useState<Level>('Intermediate');
-  const [selectedTopic, setSelectedTopic] = useState<Topic>('Job Interview');
+  const [selectedTopic, setSelectedTopic] = useState<TopicId>(INTERVIEW_TOPIC_ID);
+  const [topics, setTopics] = useState<TopicDefinition[]>(BUILT_IN_TOPICS);
   const [selectedDuration, setSelectedDuration] = useState<Duration>('1m');
   
   const [scenario, setScenario] = useState<Scenario | null>(null);
   const [audioData, setAudioData] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftScenario | null>(null);
+  // Set while new audio is being synthesized; `audioData` fills in once it is done.
+  const [audioStream, setAudioStream] = useState<AudioStream | null>(null);
+  const [audioTurnsReady, setAudioTurnsReady] = useState(0);
+  const [error, setError] = useState<ErrorDetails | null>(null);
   const [playbackProgress, setPlaybackProgress] = useState(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
   const [visibleTranslations, setVisibleTranslations] = useState<Record<number, boolean>>({});
   const [customVocab, setCustomVocab] = useState<VocabularyItem[]>([]);
-  const [isSlowMode, setIsSlowMode] = useState(false);
-  const [isLookingUp, setIsLookingUp] = useState(false);
+  // Words clicked while an earlier lookup is still running wait here, in click order.
+  const [pendingLookups, setPendingLookups] = useState<PendingLookup[]>([]);
+  const lookupQueueRef = useRef<PendingLookup[]>([]);
+  const scenarioIdRef = useRef<string | undefined>(undefined);
+  const sessionRef = useRef<SessionTracker | null>(null);
+  const lastPositionRef = useRef({ seconds: 0, at: 0 });
+  const [audioVariants, setAudioVariants] = useState<AudioVariants>({});
+  // Which scenario `audioVariants` was synthesized for, so a retry never reuses another dialogue's audio.
+  const audioVariantsIdRef = useRef<string | undefined>(undefined);
+  const [scenarioSettings, setScenarioSettings] = useState<{ level: Level; topic: TopicId; duration: Duration } | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isInterviewSourceOpen, setIsInterviewSourceOpen] = useState(false);
+  const playerRef = useRef<VoicePlayerHandle>(null);
+  // The generation in flight, if any, and the arguments that would repeat the last failed one.
+  const generationRef = useRef<AbortController | null>(null);
+  const retryArgsRef = useRef<[boolean, InterviewSource?]>([false]);
+  const [view, setView] = useState<'practice' | 'review' | 'settings' | 'progress'>('practice');
+  const [profile, setProfile] = useState<LearnerProfile>(DEFAULT_PROFILE);
+  const [dueCount, setDueCount] = useState(0);
+  const [rolePlaySpeaker, setRolePlaySpeaker] = useState<string | null>(null);
+  const [rolePlayPendingTurn, setRolePlayPendingTurn] = useState(0);
+  const [isDictating, setIsDictating] = useState(false);
+  const [dictationTurn, setDictationTurn] = useState(0);
+  const [isWritingAnswers, setIsWritingAnswers] = useState(false);
+  const [writingHiddenFrom, setWritingHiddenFrom] = useState(0);
+  const [isQuizOpen, setIsQuizOpen] = useState(false);
+  const [audioSelection, setAudioSelection] = useState<TurnTiming | null>(null);
+  const [lexiconPos, setLexiconPos] = useState('all');
+  const [lexiconSort, setLexiconSort] = useState<LexiconSort>('recent');
+
+  scenarioIdRef.current = scenario?.id;
 
-  const startPractice = async (overrideSlowMode?: boolean) => {
-    const useSlow = overrideSlowMode !== undefined ? overrideSlowMode : isSlowMode;
+  const refreshDueCount = () => {
+    countDueCards()
+      .then(setDueCount)
+      .catch(err => console.error("Error counting due cards:", err));
+  };
+
+  useEffect(() => {
+    refreshDueCount();
+    getProfile()
+      .then(setProfile)
+      .catch(err => console.error("Error loading profile:", err));
+    listTopics()
+      .then(setTopics)
+      .catch(err => console.error("Error loading topics:", err));
+    window.addEventListener('pagehide', flushLibrarySave);
+    return () => {
+      generationRef.current?.abort();
+      window.removeEventListener('pagehide', flushLibrarySave);
+      flushLibrarySave();
+    };
+  }, []);
+
+  useEffect(() => {
+    setRolePlaySpeaker(null);
+    setIsDictating(false);
+    setIsWritingAnswers(false);
+  }, [scenario?.id, audioData]);
+
+  useEffect(() => {
+    setIsQuizOpen(false);
+  }, [scenario?.id]);
+
+  // One analytics session per scenario opened, closed when the learner moves on.
+  useEffect(() => {
+    if (!scenario || !scenarioSettings) return;
+    const tracker = startSession(scenario, { ...scenarioSettings, topicName: findTopic(topics, scenarioSettings.topic).name });
+    sessionRef.current = tracker;
+    return () => {
+      tracker.close();
+      if (sessionRef.current === tracker) sessionRef.current = null;
+    };
+  }, [scenario?.id, scenarioSettings]);
+
+  useEffect(() => {
+    if (!scenario || !scenarioSettings) return;
+    scheduleLibrarySave({
+      id: scenario.id,
+      ...scenarioSettings,
+      scenario,
+      audio: audioVariants,
+      customVocab,
+      visibleTranslations
+    });
+  }, [scenario, scenarioSettings, audioVariants, customVocab, visibleTranslations]);
+
+  // Passing an interview source always generates a new, tailored interview.
+  // Starting again aborts the generation in flight, so only the newest one updates the screen.
+  const startPractice = async (forceNew = false, interviewSource?: InterviewSource) => {
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    generationRef.current = controller;
+    retryArgsRef.current = [forceNew, interviewSource];
+    const updateDraft = (next: DraftScenario) => {
+      if (!signal.aborted) setDraft(next);
+    };
     try {
+      setView('practice');
       setError(null);
       setAudioData(null);
+      setAudioStream(null);
       setPlaybackProgress(0);
+      setPlaybackTime(0);
       
-      if (!scenario) {
+      const isNew = forceNew || !!interviewSource;
+      let current = isNew ? null : scenario;
+      let variants = !isNew && current && audioVariantsIdRef.current === current.id ? audioVariants : {};
+      if (!current) {
         setStatus(AppStatus.GENERATING_TEXT);
-        const newScenario = await generateScenario(
-          selectedLevel, 
-          selectedTopic, 
-          selectedDuration, 
-          "Frontend Team Lead / Junior Developer"
-        );
-        setScenario(newScenario);
-        setStatus(AppStatus.GENERATING_AUDIO);
-        const base64Audio = await generateAudio(newScenario, useSlow);
-        setAudioData(base64Audio);
-      } else {
+        setDraft(null);
+        current = interviewSource
+          ? await generateTailoredInterview(selectedLevel, selectedDuration, interviewSource, profile, updateDraft, signal)
+          : await generateScenario(
+              selectedLevel, 
+              findTopic(topics, selectedTopic), 
+              selectedDuration, 
+              profile,
+              updateDraft,
+              signal
+            );
+        throwIfCancelled(signal);
+        setDraft(null);
+        setScenario(current);
+        setAudioVariants({});
+        audioVariantsIdRef.current = current.id;
+        setScenarioSettings({ level: selectedLevel, topic: interviewSource ? INTERVIEW_TOPIC_ID : selectedTopic, duration: selectedDuration });
+        setCustomVocab([]);
+        setVisibleTranslations({});
+        addScenarioVocabulary(current)
+          .then(refreshDueCount)
+          .catch(err => console.error("Error adding vocabulary to deck:", err));
+        // The dialogue is kept, so retrying only needs to redo the audio.
+        retryArgsRef.current = [false];
+      }
+
+      // The player slows audio down locally, so only normal pacing is synthesized.
+      let base64Audio = variants.normal;
+      if (!base64Audio) {
+        // A cancelled or failed run may have left timings for only the turns it voiced.
+        if (current.timings?.normal) {
+          const { normal, ...timings } = current.timings;
+          current = { ...current, timings };
+          setScenario(current);
+        }
         setStatus(AppStatus.GENERATING_AUDIO);
-        const base64Audio = await generateAudio(scenario, useSlow);
-        setAudioData(base64Audio);
+        // Playback can start with the first chunk; the rest is appended as it arrives.
+        const stream = createAudioStream();
+        const voiced = current;
+        const streamedTimings: TurnTiming[] = [];
+        setAudioStream(stream);
+        setAudioTurnsReady(0);
+        const audio = await generateAudio(voiced, false, chunk => {
+          if (signal.aborted) return;
+          stream.push(chunk.pcm);
+          streamedTimings.push(...chunk.timings);
+          setAudioTurnsReady(streamedTimings.length);
+          setScenario({ ...voiced, timings: { ...voiced.timings, normal: [...streamedTimings] } });
+        }, signal);
+        throwIfCancelled(signal);
+        stream.complete();
+        base64Audio = audio.data;
+        variants = { ...variants, normal: base64Audio };
+        setScenario({ ...current, timings: { ...current.timings, normal: audio.timings } });
       }
+      setAudioVariants(variants);
+      audioVariantsIdRef.current = current.id;
+      setAudioData(base64Audio);
       
       setStatus(AppStatus.READY);
     } catch (err) {
+      // A newer generation replaced this one and owns the screen now.
+      if (generationRef.current !== controller) return;
       console.error(err);
-      setError("Failed to create session. Please try again.");
+      setDraft(null);
+      setAudioStream(null);
+      setError(describeError(err));
       setStatus(AppStatus.ERROR);
+    } finally {
+      if (generationRef.current === controller) generationRef.current = null;
     }
   };
 
-  const toggleSlowMode = () => {
-    const next = !isSlowMode;
-    setIsSlowMode(next);
-    if (scenario) startPractice(next);
+  // Only steady forward playback counts as listening. Time is measured on the clock
+  // rather than in audio seconds, which pass slower or faster at other speeds.
+  const handleTimeUpdate = (seconds: number) => {
+    setPlaybackTime(seconds);
+    const now = performance.now();
+    const step = seconds - lastPositionRef.current.seconds;
+    const elapsed = (now - lastPositionRef.current.at) / 1000;
+    lastPositionRef.current = { seconds, at: now };
+    if (step > 0 && step < MAX_LISTENING_STEP && elapsed < MAX_LISTENING_STEP) sessionRef.current?.addListening(elapsed);
   };
 
-  const handleWordClick = async (word: string, context: string) => {
-    const cleanWord = word.replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g,"");
-    if (isLookingUp || !cleanWord) return;
-    setIsLookingUp(true);
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+  };
+
+  const openLibraryEntry = (entry: LibraryEntry) => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    const audio = entry.audio.normal || null;
+    setIsLibraryOpen(false);
+    setView('practice');
+    setScenario(entry.scenario);
+    setScenarioSettings({ level: entry.level, topic: entry.topic, duration: entry.duration });
+    setSelectedLevel(entry.level);
+    setSelectedTopic(entry.topic);
+    setSelectedDuration(entry.duration);
+    setAudioVariants(entry.audio);
+    audioVariantsIdRef.current = entry.scenario.id;
+    setCustomVocab(entry.customVocab);
+    setVisibleTranslations(entry.visibleTranslations);
+    setPlaybackProgress(0);
+    setPlaybackTime(0);
+    setAudioStream(null);
+    setAudioData(audio);
+    if (audio) {
+      setError(null);
+      setStatus(AppStatus.READY);
+    } else {
+      retryArgsRef.current = [false];
+      setError({ category: 'unknown', title: 'No audio yet', message: 'This saved scenario has no audio yet.' });
+      setStatus(AppStatus.ERROR);
+    }
+  };
+
+  const handleLibraryDeleted = (id: string) => {
+    cancelLibrarySave(id);
+    if (scenario?.id === id) setScenarioSettings(null);
+  };
+
+  const handleLibraryRenamed = (entry: LibraryEntry) => {
+    if (scenario?.id === entry.id) setScenario(entry.scenario);
+  };
+
+  const lookUpWord = async ({ word, context, profile, scenarioId }: PendingLookup) => {
     try {
-      const def = await getWordDefinition(cleanWord, context);
-      setCustomVocab(prev => {
-        if (prev.find(v => v.word.toLowerCase() === cleanWord.toLowerCase())) return prev;
-        return [{ ...def, isCustom: true }, ...prev];
-      });
+      const def = await getWordDefinition(word, context, profile);
+      // The learner may have moved on to another scenario while this one was queued.
+      if (scenarioIdRef.current === scenarioId) {
+        sessionRef.current?.lookUpWord(word);
+        setCustomVocab(prev => {
+          if (prev.find(v => v.word.toLowerCase() === word.toLowerCase())) return prev;
+          return [{ ...def, isCustom: true, sourceSentence: context }, ...prev];
+        });
+      }
+      addToDeck([{ item: def, context, scenarioId }])
+        .then(refreshDueCount)
+        .catch(err => console.error("Error adding word to deck:", err));
     } catch (e) {
       console.error(e);
-    } finally {
-      setIsLookingUp(false);
     }
   };
 
+  const processLookups = async () => {
+    while (lookupQueueRef.current.length) {
+      await lookUpWord(lookupQueueRef.current[0]);
+      lookupQueueRef.current = lookupQueueRef.current.slice(1);
+      setPendingLookups(lookupQueueRef.current);
+    }
+  };
+
+  const enqueueLookup = (word: string, context: string) => {
+    const queue = lookupQueueRef.current;
+    if (queue.some(l => l.word.toLowerCase() === word.toLowerCase() && l.context === context)) return;
+    lookupQueueRef.current = [...queue, { word, context, profile, scenarioId: scenario?.id }];
+    setPendingLookups(lookupQueueRef.current);
+    // Only the click that finds the queue empty starts working through it.
+    if (!queue.length) processLookups();
+  };
+
+  const handleWordClick = (word: string, context: string) => {
+    const cleanWord = word.replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g,"");
+    if (cleanWord) enqueueLookup(cleanWord, context);
+  };
+
+  // Detected idioms already carry their definition, so clicking one needs no lookup.
+  const handleIdiomClick = (item: VocabularyItem, context: string) => {
+    sessionRef.current?.lookUpWord(item.word);
+    setCustomVocab(prev => {
+      if (prev.find(v => v.word.toLowerCase() === item.word.toLowerCase())) return prev;
+      return [{ ...item, isCustom: true, sourceSentence: context }, ...prev];
+    });
+    addToDeck([{ item, context, scenarioId: scenario?.id }])
+      .then(refreshDueCount)
+      .catch(err => console.error("Error adding idiom to deck:", err));
+  };
+
+  const turnTimings = scenario?.timings?.normal;
+
+  const idiomSpans = useMemo(() => {
+    if (!scenario) return [];
+    return scenario.dialogue.map(turn => findPhraseSpans(turn.text, scenario.idioms.map(i => i.word)));
+  }, [scenario?.dialogue, scenario?.idioms]);
+
+  // Idioms the learner has clicked are listed once, with their own lookups.
+  const lexiconItems = useMemo(() => {
+    if (!scenario) return customVocab;
+    const idioms = scenario.idioms.filter(i => !customVocab.some(v => v.word.toLowerCase() === i.word.toLowerCase()));
+    return [...customVocab, ...scenario.vocabulary, ...idioms];
+  }, [scenario, customVocab]);
+
+  const hasInterviewQuestions = useMemo(() => !!scenario && findInterviewQuestions(scenario).length > 0, [scenario?.id]);
+
+  const lexiconPosOptions = useMemo(() => Array.from(new Set(lexiconItems.map(v => v.partOfSpeech))).sort(), [lexiconItems]);
+
+  // Entries without a CEFR level stay at the end either way.
+  const visibleLexicon = useMemo(() => {
+    const pos = lexiconPosOptions.includes(lexiconPos) ? lexiconPos : 'all';
+    const filtered = lexiconItems.filter(v => pos === 'all' || v.partOfSpeech === pos);
+    if (lexiconSort === 'recent') return filtered;
+    const rank = (item: VocabularyItem) => item.cefr ? CEFR_LEVELS.indexOf(item.cefr) : -1;
+    const direction = lexiconSort === 'easiest' ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const [rankA, rankB] = [rank(a), rank(b)];
+      if (rankA < 0 || rankB < 0) return Number(rankA < 0) - Number(rankB < 0);
+      return (rankA - rankB) * direction;
+    });
+  }, [lexiconItems, lexiconPosOptions, lexiconPos, lexiconSort]);
+
   const activeTurnIndex = useMemo(() => {
     if (!scenario || playbackProgress === 0 || playbackProgress >= 99.5) return -1;
+    if (turnTimings) {
+      // A turn stays active through the pause that follows it.
+      for (let i = turnTimings.length - 1; i >= 0; i--) {
+        if (playbackTime >= turnTimings[i].start) return i;
+      }
+      return -1;
+    }
+    // Until audio has been synthesized there are no per-turn timings, so estimate from text length.
     const totalChars = scenario.dialogue.reduce((acc, turn) => acc + turn.text.length, 0);
     let charCounter = 0;
     const progressRatio = playbackProgress / 100;
@@ -88,9 +429,71 @@ const App: React.FC = () => {
       charCounter += turnChars;
     }
     return -1;
-  }, [scenario, playbackProgress]);
+  }, [scenario, turnTimings, playbackProgress, playbackTime]);
+
+  const seekToTurn = (idx: number) => {
+    if (turnTimings?.[idx]) playerRef.current?.seekTo(turnTimings[idx].start);
+  };
+
+  const replayTurn = (idx: number) => {
+    if (turnTimings?.[idx]) playerRef.current?.playRange(turnTimings[idx].start, turnTimings[idx].end);
+  };
+
+  const showTurnInDialogue = (idx: number) => {
+    document.getElementById(`turn-${idx}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    seekToTurn(idx);
+  };
+
+  // Lines stay hidden until the learner has answered them in role-play or transcribed them in dictation.
+  // While writing interview answers, only the candidate's model answers not yet revealed are hidden.
+  const isTurnTextHidden = (idx: number) => {
+    if (isDictating) return idx >= dictationTurn;
+    if (isWritingAnswers) return scenario?.dialogue[idx].role === 'candidate' && idx >= writingHiddenFrom;
+    return !!rolePlaySpeaker && scenario?.dialogue[idx].speaker === rolePlaySpeaker && idx >= rolePlayPendingTurn;
+  };
+
+  const handleVocabularyImported = (items: VocabularyItem[]) => {
+    const known = new Set(lexiconItems.map(v => v.word.toLowerCase()));
+    const added = items.filter(v => !known.has(v.word.toLowerCase())).map(v => ({ ...v, isCustom: true }));
+    if (!added.length) return;
+    setCustomVocab(prev => [...added, ...prev]);
+    addToDeck(added.map(item => ({ item, context: item.sourceSentence || '', scenarioId: scenario?.id })))
+      .then(refreshDueCount)
+      .catch(err => console.error("Error adding imported words to deck:", err));
+  };
+
+  const selectTopic = (id: TopicId) => {
+    setSelectedTopic(id);
+    setSelectedDuration(findTopic(topics, id).defaultDuration);
+  };
+
+  const handleTopicsChanged = (updated: TopicDefinition[]) => {
+    setTopics(updated);
+    if (!updated.some(t => t.id === selectedTopic)) setSelectedTopic(INTERVIEW_TOPIC_ID);
+  };
+
+  const getSpeakerStyle = (speaker: string) => {
+    const idx = scenario ? scenario.participants.findIndex(p => p.name === speaker) : 0;
+    return SPEAKER_STYLES[Math.max(0, idx) % SPEAKER_STYLES.length];
+  };
+
+  const playerTurns = useMemo<PlayerTurn[] | undefined>(() => {
+    if (!scenario || !turnTimings) return undefined;
+    return turnTimings.map((timing, idx) => {
+      const turn = scenario.dialogue[idx];
+      return { ...timing, speaker: turn?.speaker || '', text: turn?.text || '', color: getSpeakerStyle(turn?.speaker || '').wave };
+    });
+  }, [scenario, turnTimings]);
+
+  // The learner's side of the chat: whoever they are role-playing, otherwise
+  // the second person of a two-person scene. Meetings stay left-aligned.
+  const isRightSide = (speaker: string) => {
+    if (rolePlaySpeaker) return speaker === rolePlaySpeaker;
+    return scenario?.participants.length === 2 && scenario.participants[1].name === speaker;
+  };
 
   const toggleTranslation = (idx: number) => {
+    if (!visibleTranslations[idx]) sessionRef.current?.revealTranslation();
     setVisibleTranslations(prev => ({ ...prev, [idx]: !prev[idx] }));
   };
 
@@ -119,12 +522,12 @@ const App: React.FC = () => {
             {/* Topic Selector */}
             <select 
               value={selectedTopic} 
-              onChange={(e) => setSelectedTopic(e.target.value as Topic)}
+              onChange={(e) => selectTopic(e.target.value)}
               className="bg-slate-800 border border-slate-700 text-slate-200 text-xs font-bold rounded-xl px-4 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500 cursor-pointer"
             >
-              <option value="Job Interview">Job Interview</option>
-              <option value="Work Daily">Work Daily</option>
-              <option value="Casual">Casual Dialogue</option>
+              {topics.map(topic => (
+                <option key={topic.id} value={topic.id}>{topic.name}</option>
+              ))}
             </select>
 
             {/* Duration Selector */}
@@ -135,19 +538,97 @@ const App: React.FC = () => {
             </div>
 
             <button 
-              onClick={() => { setScenario(null); startPractice(); }} 
-              disabled={status === AppStatus.GENERATING_TEXT || status === AppStatus.GENERATING_AUDIO} 
-              className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white px-6 py-2 rounded-xl font-bold transition-all shadow-lg flex items-center gap-2 whitespace-nowrap active:scale-95"
+              onClick={() => setView(view === 'review' ? 'practice' : 'review')} 
+              className={`border px-4 py-2 rounded-xl text-xs font-bold transition-all whitespace-nowrap flex items-center gap-2 ${view === 'review' ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-200'}`}
+            >
+              Review
+              {dueCount > 0 && <span className="bg-sky-500 text-white text-[10px] font-black px-2 py-0.5 rounded-full">{dueCount}</span>}
+            </button>
+
+            <button 
+              onClick={() => setView(view === 'progress' ? 'practice' : 'progress')} 
+              className={`border px-4 py-2 rounded-xl text-xs font-bold transition-all whitespace-nowrap ${view === 'progress' ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-200'}`}
             >
-              {status === AppStatus.IDLE ? 'Start' : 'Generate'}
-              {(status === AppStatus.GENERATING_TEXT || status === AppStatus.GENERATING_AUDIO) && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>}
+              Progress
             </button>
+
+            <button 
+              onClick={() => setView(view === 'settings' ? 'practice' : 'settings')} 
+              className={`border px-4 py-2 rounded-xl text-xs font-bold transition-all whitespace-nowrap ${view === 'settings' ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-200'}`}
+            >
+              Settings
+            </button>
+
+            <button 
+              onClick={() => setIsLibraryOpen(true)} 
+              className="bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 px-4 py-2 rounded-xl text-xs font-bold transition-all whitespace-nowrap"
+            >
+              Library
+            </button>
+
+            <button 
+              onClick={() => setIsInterviewSourceOpen(true)} 
+              className="bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 px-4 py-2 rounded-xl text-xs font-bold transition-all whitespace-nowrap"
+            >
+              From Job Post
+            </button>
+
+            {status === AppStatus.GENERATING_TEXT || status === AppStatus.GENERATING_AUDIO ? (
+              <button 
+                onClick={cancelGeneration} 
+                className="bg-slate-700 hover:bg-slate-600 text-white px-6 py-2 rounded-xl font-bold transition-all shadow-lg flex items-center gap-2 whitespace-nowrap active:scale-95"
+              >
+                Cancel
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+              </button>
+            ) : (
+              <button 
+                onClick={() => startPractice(true)} 
+                className="bg-sky-500 hover:bg-sky-600 text-white px-6 py-2 rounded-xl font-bold transition-all shadow-lg flex items-center gap-2 whitespace-nowrap active:scale-95"
+              >
+                {status === AppStatus.IDLE ? 'Start' : 'Generate'}
+              </button>
+            )}
           </div>
         </div>
       </header>
 
+      {isLibraryOpen && (
+        <LibraryPanel
+          activeId={scenario?.id || null}
+          topics={topics}
+          onOpen={openLibraryEntry}
+          onClose={() => setIsLibraryOpen(false)}
+          onRenamed={handleLibraryRenamed}
+          onDeleted={handleLibraryDeleted}
+        />
+      )}
+
+      {isInterviewSourceOpen && (
+        <InterviewSourcePanel
+          initialSource={scenario?.interviewSource}
+          onGenerate={(source) => {
+            setIsInterviewSourceOpen(false);
+            startPractice(true, source);
+          }}
+          onClose={() => setIsInterviewSourceOpen(false)}
+        />
+      )}
+
       <main>
-        {status === AppStatus.IDLE && (
+        {view === 'review' && (
+          <ReviewScreen onClose={() => setView('practice')} onDeckChanged={refreshDueCount} />
+        )}
+
+        {view === 'progress' && (
+          <DashboardScreen onClose={() => setView('practice')} />
+        )}
+
+        {view === 'settings' && (
+          <SettingsScreen profile={profile} onProfileSaved={setProfile} topics={topics} onTopicsChanged={handleTopicsChanged} onClose={() => setView('practice')} />
+        )}
+
+        {view === 'practice' && status === AppStatus.IDLE && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-8 animate-in fade-in duration-1000">
              <div className="relative">
                 <div className="absolute inset-0 bg-sky-500 blur-[80px] opacity-10 rounded-full"></div>
@@ -157,65 +638,194 @@ const App: React.FC = () => {
               <h2 className="text-4xl font-black max-w-md mx-auto leading-tight">Master English for Modern Teams</h2>
               <p className="text-slate-400 max-w-sm mx-auto">Personalized AI dialogues to help you advance in international tech companies.</p>
             </div>
-            <button onClick={startPractice} className="bg-white text-slate-900 px-8 py-4 rounded-3xl font-black text-lg hover:bg-sky-50 shadow-2xl transition-all active:scale-95">Begin Session</button>
+            <button onClick={() => startPractice()} className="bg-white text-slate-900 px-8 py-4 rounded-3xl font-black text-lg hover:bg-sky-50 shadow-2xl transition-all active:scale-95">Begin Session</button>
           </div>
         )}
 
-        {(status === AppStatus.GENERATING_TEXT || status === AppStatus.GENERATING_AUDIO) && (
+        {view === 'practice' && status === AppStatus.GENERATING_TEXT && (
+          <DraftDialogue draft={draft} onCancel={cancelGeneration} />
+        )}
+
+        {view === 'practice' && status === AppStatus.GENERATING_AUDIO && !audioTurnsReady && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] space-y-6">
             <div className="w-16 h-16 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
             <div className="text-center">
-              <p className="text-sky-400 font-bold text-lg animate-pulse">{status === AppStatus.GENERATING_TEXT ? "Writing Custom Dialogue..." : "Generating High-Quality Voices..."}</p>
+              <p className="text-sky-400 font-bold text-lg animate-pulse">Generating High-Quality Voices...</p>
               <p className="text-slate-500 text-sm mt-2">Setting the stage for your practice.</p>
             </div>
+            <button onClick={cancelGeneration} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white">Cancel</button>
           </div>
         )}
 
-        {scenario && (
+        {view === 'practice' && status === AppStatus.ERROR && error && (
+          <div className="flex flex-col items-center justify-center min-h-[30vh] text-center space-y-6 mb-10">
+            <div className={`max-w-md p-6 border rounded-[2rem] space-y-2 ${ERROR_ACTIONS[error.category].tone}`}>
+              <p className="text-[10px] font-black uppercase tracking-widest">{error.title}</p>
+              <p className="font-bold leading-relaxed">{error.message}</p>
+            </div>
+            <div className="flex flex-wrap justify-center gap-3">
+              <button
+                // A blocked dialogue won't pass on a second try, so ask for a new one.
+                onClick={() => error.category === 'safety' ? startPractice(true) : startPractice(...retryArgsRef.current)}
+                className="bg-sky-500 hover:bg-sky-600 text-white px-6 py-2 rounded-xl font-bold transition-all shadow-lg active:scale-95"
+              >
+                {ERROR_ACTIONS[error.category].label}
+              </button>
+              {error.category === 'safety' && retryArgsRef.current[1] && (
+                <button onClick={() => setIsInterviewSourceOpen(true)} className="bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 px-6 py-2 rounded-xl font-bold transition-all">Edit Posting</button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {view === 'practice' && scenario && status !== AppStatus.GENERATING_TEXT && (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-10 animate-in fade-in slide-in-from-bottom-4 duration-700">
             <div className="lg:col-span-8 space-y-6">
               <div className="bg-slate-800/40 p-6 md:p-8 rounded-[3rem] border border-slate-700/50 shadow-2xl">
                 <div className="mb-8">
-                  <h2 className="text-3xl font-black text-sky-400">{scenario.title}</h2>
+                  <div className="flex items-start justify-between gap-4">
+                    <h2 className="text-3xl font-black text-sky-400">{scenario.title}</h2>
+                    <ExportMenu
+                      scenario={scenario}
+                      base64Audio={audioData}
+                      timings={turnTimings}
+                      vocabulary={lexiconItems}
+                      selection={audioSelection}
+                    />
+                  </div>
                   <p className="text-slate-400 mt-2 italic text-sm p-5 bg-slate-900/50 rounded-2xl border border-slate-700/30 leading-relaxed">{scenario.context}</p>
+                  {scenario.interviewSource && (
+                    <div className="mt-3 flex flex-wrap items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+                      <span className="text-slate-500">Tailored to a job posting{scenario.interviewSource.cv ? ' and your CV' : ''}</span>
+                      <button
+                        onClick={() => startPractice(true, scenario.interviewSource)}
+                        disabled={status === AppStatus.GENERATING_AUDIO}
+                        className="text-sky-400 hover:text-sky-300 disabled:opacity-40"
+                      >
+                        Regenerate at {selectedLevel} • {selectedDuration}
+                      </button>
+                      <button onClick={() => setIsInterviewSourceOpen(true)} className="text-slate-400 hover:text-white">Edit posting</button>
+                    </div>
+                  )}
                 </div>
 
+                {status === AppStatus.GENERATING_AUDIO && audioTurnsReady > 0 && (
+                  <p className="mb-3 text-[10px] font-black uppercase tracking-widest text-sky-300 animate-pulse">
+                    Voices ready for {audioTurnsReady} of {scenario.dialogue.length} lines • you can start listening
+                  </p>
+                )}
+
                 <VoicePlayer 
+                  ref={playerRef}
                   base64Audio={audioData} 
+                  audioStream={audioStream}
                   onProgressUpdate={setPlaybackProgress} 
-                  isSlowMode={isSlowMode}
-                  onRefreshSlowMode={toggleSlowMode}
+                  onTimeUpdate={handleTimeUpdate}
+                  turns={playerTurns}
+                  title={scenario.title}
+                  onSelectionChange={setAudioSelection}
                 />
 
+                {!rolePlaySpeaker && !isDictating && !isWritingAnswers && ((turnTimings && audioData) || hasInterviewQuestions) && (
+                  <div className="mt-6 flex flex-wrap items-center gap-3">
+                    {turnTimings && audioData && (
+                      <>
+                        <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Role-play as</span>
+                        {scenario.participants.map(p => (
+                          <button key={p.name} onClick={() => setRolePlaySpeaker(p.name)} className="flex items-center gap-2 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-300 border border-slate-700 hover:border-amber-400 hover:text-amber-300 transition-all">
+                            <span className={`w-2 h-2 rounded-full ${getSpeakerStyle(p.name).dot}`}></span>
+                            {p.name}
+                          </button>
+                        ))}
+                        <span className="text-slate-700">|</span>
+                        <button onClick={() => setIsDictating(true)} className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-300 border border-slate-700 hover:border-emerald-400 hover:text-emerald-300 transition-all">
+                          Dictation
+                        </button>
+                      </>
+                    )}
+                    {hasInterviewQuestions && (
+                      <button onClick={() => setIsWritingAnswers(true)} className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-300 border border-slate-700 hover:border-violet-400 hover:text-violet-300 transition-all">
+                        Answer in Writing
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {isWritingAnswers && (
+                  <AnswerPracticePanel
+                    scenario={scenario}
+                    profile={profile}
+                    timings={audioData ? turnTimings : undefined}
+                    playerRef={playerRef}
+                    onHiddenFromChange={setWritingHiddenFrom}
+                    onExit={() => setIsWritingAnswers(false)}
+                  />
+                )}
+
+                {turnTimings && isDictating && (
+                  <DictationPanel
+                    scenario={scenario}
+                    timings={turnTimings}
+                    playerRef={playerRef}
+                    onCurrentTurnChange={setDictationTurn}
+                    onChecked={score => sessionRef.current?.addDictationScore(score.accuracy)}
+                    onExit={() => setIsDictating(false)}
+                  />
+                )}
+
+                {turnTimings && rolePlaySpeaker && (
+                  <RolePlayPanel
+                    scenario={scenario}
+                    speaker={rolePlaySpeaker}
+                    timings={turnTimings}
+                    playerRef={playerRef}
+                    onPendingTurnChange={setRolePlayPendingTurn}
+                    onExit={() => setRolePlaySpeaker(null)}
+                  />
+                )}
+
                 <div className="mt-10 space-y-8 max-h-[800px] overflow-y-auto pr-4 scrollbar-thin scrollbar-thumb-slate-700">
                   {scenario.dialogue.map((turn, idx) => (
-                    <div key={idx} className={`flex flex-col transition-all duration-500 ${turn.role === 'candidate' ? 'items-end' : 'items-start'} ${activeTurnIndex === idx ? 'scale-[1.03] z-10' : 'opacity-40 grayscale-[20%]'}`}>
+                    <div key={idx} id={`turn-${idx}`} className={`flex flex-col transition-all duration-500 ${isRightSide(turn.speaker) ? 'items-end' : 'items-start'} ${activeTurnIndex === idx ? 'scale-[1.03] z-10' : 'opacity-40 grayscale-[20%]'}`}>
                       <div className={`relative max-w-[90%] rounded-[2.5rem] px-8 pt-7 pb-10 shadow-2xl transition-all duration-500 ${
-                        turn.role === 'candidate' ? 'bg-sky-600 text-white rounded-tr-none' : 'bg-slate-700/90 text-slate-100 rounded-tl-none'
+                        `${getSpeakerStyle(turn.speaker).bubble} ${isRightSide(turn.speaker) ? 'rounded-tr-none' : 'rounded-tl-none'}`
                       } ${activeTurnIndex === idx ? 'ring-8 ring-sky-400/30 ring-offset-4 ring-offset-slate-900 shadow-sky-500/40' : 'ring-1 ring-slate-600'}`}>
                         
                         <div className="flex items-center justify-between mb-4">
-                           <p className="text-[10px] uppercase font-black tracking-[0.2em] opacity-80">{turn.speaker} • {turn.role}</p>
-                           <button onClick={() => toggleTranslation(idx)} className="text-[9px] font-black uppercase bg-black/30 hover:bg-black/50 px-3 py-1.5 rounded-full transition-all tracking-widest">
-                             {visibleTranslations[idx] ? 'Hide Farsi' : 'Translate'}
+                           <button
+                             onClick={() => seekToTurn(idx)}
+                             disabled={!turnTimings}
+                             className="flex items-center gap-2 text-[10px] uppercase font-black tracking-[0.2em] opacity-80 enabled:hover:opacity-100 transition-opacity"
+                             title={turnTimings ? 'Jump to this line' : undefined}
+                           >
+                             <span className={`w-2.5 h-2.5 rounded-full ${getSpeakerStyle(turn.speaker).dot}`}></span>
+                             {turn.speaker} • {turn.role}
                            </button>
+                           <div className="flex items-center gap-2">
+                             {turnTimings && (
+                               <button onClick={() => replayTurn(idx)} className="text-[9px] font-black uppercase bg-black/30 hover:bg-black/50 px-3 py-1.5 rounded-full transition-all tracking-widest" title="Replay this sentence">
+                                 Replay
+                               </button>
+                             )}
+                             <button onClick={() => toggleTranslation(idx)} className="text-[9px] font-black uppercase bg-black/30 hover:bg-black/50 px-3 py-1.5 rounded-full transition-all tracking-widest">
+                               {visibleTranslations[idx] ? `Hide ${getLanguage(turn.translation.lang).name}` : 'Translate'}
+                             </button>
+                           </div>
                         </div>
                         
-                        <div className="text-xl leading-relaxed font-semibold">
-                          {turn.text.split(' ').map((word, wIdx) => (
-                            <span 
-                              key={wIdx} 
-                              onClick={() => handleWordClick(word, turn.text)}
-                              className="inline-block cursor-pointer hover:text-sky-300 transition-colors mr-1.5 hover:bg-white/15 px-0.5 rounded-sm select-none"
-                            >
-                              {word}
-                            </span>
-                          ))}
-                        </div>
+                        <TurnText
+                          text={turn.text}
+                          spans={idiomSpans[idx] || []}
+                          idioms={scenario.idioms}
+                          className={`text-xl leading-relaxed font-semibold ${isTurnTextHidden(idx) ? 'blur-md pointer-events-none' : ''}`}
+                          onWordClick={(word) => handleWordClick(word, turn.text)}
+                          onPhraseSelect={(phrase) => enqueueLookup(phrase, turn.text)}
+                          onIdiomClick={(item) => handleIdiomClick(item, turn.text)}
+                        />
 
                         {visibleTranslations[idx] && (
-                          <div className="mt-6 pt-6 border-t border-white/10 farsi animate-in slide-in-from-top-3">
-                            <p className="text-sky-100/95 text-lg leading-loose">{turn.persianText}</p>
+                          <div className="mt-6 pt-6 border-t border-white/10 translation animate-in slide-in-from-top-3" {...translationAttrs(turn.translation.lang)}>
+                            <p className="text-sky-100/95 text-lg leading-loose">{turn.translation.text}</p>
                           </div>
                         )}
 
@@ -233,6 +843,14 @@ const App: React.FC = () => {
                   <div className="h-20"></div> {/* Space at the bottom */}
                 </div>
               </div>
+
+              {isQuizOpen ? (
+                <QuizPanel scenario={scenario} profile={profile} onShowTurn={showTurnInDialogue} onSubmitted={result => sessionRef.current?.addQuizScore(result.score, result.total)} onClose={() => setIsQuizOpen(false)} />
+              ) : (
+                <button onClick={() => setIsQuizOpen(true)} className="w-full bg-slate-800/60 hover:bg-slate-800 border border-slate-700/50 text-sky-400 py-5 rounded-[2rem] font-black tracking-wide transition-all active:scale-[0.99]">
+                  Test Your Understanding
+                </button>
+              )}
             </div>
 
             <div className="lg:col-span-4 space-y-6">
@@ -242,27 +860,53 @@ const App: React.FC = () => {
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M9 4.804A7.968 7.968 0 005.5 4c-1.255 0-2.443.29-3.5.804v10a7.969 7.969 0 013.5-.804c1.154 0 2.251.24 3.243.673.1.044.214.044.314 0A10.97 10.97 0 0112.5 14c1.255 0 2.443.29 3.5.804v-10A7.968 7.968 0 0012.5 4c-1.255 0-2.443.29-3.5.804z" /></svg>
                     Lexicon
                   </span>
-                  {isLookingUp && <div className="w-5 h-5 border-3 border-sky-500 border-t-transparent rounded-full animate-spin"></div>}
+                  {pendingLookups.length > 0 && <div className="w-5 h-5 border-3 border-sky-500 border-t-transparent rounded-full animate-spin"></div>}
                 </h3>
+
+                {pendingLookups.length > 0 && (
+                  <p className="-mt-5 mb-6 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                    Looking up {pendingLookups.map(l => l.word).join(', ')}
+                  </p>
+                )}
                 
-                <div className="space-y-4 max-h-[750px] overflow-y-auto pr-3 scrollbar-thin scrollbar-thumb-slate-700">
-                  {[...customVocab, ...scenario.vocabulary].map((item, idx) => (
-                    <div key={idx} className={`p-6 rounded-[2rem] border transition-all duration-500 ${
-                      item.isCustom 
-                        ? 'bg-sky-500/15 border-sky-500/40 ring-1 ring-sky-500/20 shadow-sky-500/10 shadow-lg' 
-                        : 'bg-slate-900/60 border-slate-700/50 hover:border-slate-500/50 hover:bg-slate-900/90'
-                    }`}>
-                      <div className="flex justify-between items-center mb-2">
-                        <span className="text-lg font-black text-sky-400 tracking-tight">{item.word}</span>
-                        <span className="text-[9px] bg-slate-800 text-slate-500 px-2 py-1 rounded-lg font-black uppercase tracking-widest">{item.partOfSpeech}</span>
-                      </div>
-                      <p className="text-sm text-slate-300 mb-4 leading-relaxed">{item.englishMeaning}</p>
-                      <div className="pt-4 border-t border-slate-700/40 farsi">
-                        <p className="text-sky-200 text-base font-bold">{item.persianMeaning}</p>
-                      </div>
+                <LexiconTransfer
+                  items={lexiconItems.map(v => v.isCustom ? v : { ...v, sourceSentence: findSourceSentence(scenario, v.word) })}
+                  fileName={scenario.title}
+                  profile={profile}
+                  onImported={handleVocabularyImported}
+                />
+
+                {lexiconItems.length > 0 && (
+                  <div className="flex items-center justify-between gap-3 mb-4">
+                    <select
+                      value={lexiconPosOptions.includes(lexiconPos) ? lexiconPos : 'all'}
+                      onChange={(e) => setLexiconPos(e.target.value)}
+                      className="bg-slate-900 border border-slate-700 text-slate-200 text-xs font-bold rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500 cursor-pointer"
+                    >
+                      <option value="all">All parts of speech</option>
+                      {lexiconPosOptions.map(pos => (
+                        <option key={pos} value={pos}>{pos}</option>
+                      ))}
+                    </select>
+                    <div className="flex bg-slate-900 p-1 rounded-xl border border-slate-700">
+                      {LEXICON_SORTS.map(sort => (
+                        <button
+                          key={sort.id}
+                          onClick={() => setLexiconSort(sort.id)}
+                          className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${lexiconSort === sort.id ? 'bg-sky-500 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                          {sort.label}
+                        </button>
+                      ))}
                     </div>
+                  </div>
+                )}
+
+                <div className="space-y-4 max-h-[750px] overflow-y-auto pr-3 scrollbar-thin scrollbar-thumb-slate-700">
+                  {visibleLexicon.map(item => (
+                    <LexiconCard key={item.word.toLowerCase()} item={item} />
                   ))}
-                  {customVocab.length === 0 && scenario.vocabulary.length === 0 && (
+                  {visibleLexicon.length === 0 && (
                     <div className="text-center py-10 opacity-30">
                        <p className="text-sm font-bold uppercase tracking-widest">No definitions yet</p>
                     </div>
@@ -271,7 +915,7 @@ const App: React.FC = () => {
                 
                 <div className="mt-10 p-4 bg-slate-900/50 rounded-2xl border border-slate-700/50">
                   <p className="text-center text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] leading-relaxed">
-                    Tap any word in the conversation to see its meaning here
+                    Tap any word, or drag across a phrase, to see its meaning here
                   </p>
                 </div>
               </div>
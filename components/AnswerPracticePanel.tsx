@@ -0,0 +1,281 @@
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Scenario, TurnTiming, LearnerProfile, AnswerAttempt, AnswerFeedback, AnswerCriterion } from '../types';
+import { VoicePlayerHandle } from './VoicePlayer';
+import { evaluateAnswer } from '../services/geminiService';
+import { findInterviewQuestions, saveAnswerAttempt, listAnswerAttempts, getAnswerProgress, averageScore, diffCorrections, CorrectionToken } from '../services/answerService';
+import { ANSWER_CRITERIA } from '../services/validation';
+import { getErrorMessage, getErrorCategory } from '../services/errors';
+
+interface AnswerPracticePanelProps {
+  scenario: Scenario;
+  profile: LearnerProfile;
+  // Without timings the questions can be read but not played.
+  timings?: TurnTiming[];
+  playerRef: React.RefObject<VoicePlayerHandle | null>;
+  // The first model answer the learner hasn't seen yet; dialogue.length once all are revealed.
+  onHiddenFromChange?: (idx: number) => void;
+  onExit: () => void;
+}
+
+const CRITERION_LABELS: Record<AnswerCriterion, string> = {
+  grammar: 'Grammar',
+  vocabulary: 'Vocabulary',
+  relevance: 'Relevance',
+  structure: 'Structure'
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// The learner's answer with corrections marked inline: struck-out words to drop, green words to add.
+const TOKEN_STYLES: Record<CorrectionToken['kind'], string> = {
+  kept: '',
+  removed: 'text-red-300 line-through',
+  added: 'text-emerald-300 font-bold'
+};
+
+const Corrections: React.FC<{ tokens: CorrectionToken[] }> = ({ tokens }) => (
+  <p className="text-slate-200 leading-loose">
+    {tokens.map((token, idx) => (
+      <span key={idx}><span className={TOKEN_STYLES[token.kind]}>{token.text}</span> </span>
+    ))}
+  </p>
+);
+
+const ScoreBars: React.FC<{ scores: AnswerFeedback['scores'] }> = ({ scores }) => (
+  <div className="grid grid-cols-2 gap-3">
+    {ANSWER_CRITERIA.map(criterion => (
+      <div key={criterion} className="space-y-1">
+        <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+          <span className="text-slate-500">{CRITERION_LABELS[criterion]}</span>
+          <span className="text-sky-300 tabular-nums">{scores[criterion]}/5</span>
+        </div>
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-sky-500" style={{ width: `${(scores[criterion] / 5) * 100}%` }}></div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export const AnswerPracticePanel: React.FC<AnswerPracticePanelProps> = ({ scenario, profile, timings, playerRef, onHiddenFromChange, onExit }) => {
+  const questions = useMemo(() => findInterviewQuestions(scenario), [scenario.id]);
+  const [questionIdx, setQuestionIdx] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
+  const [submitted, setSubmitted] = useState('');
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isModelShown, setIsModelShown] = useState(false);
+  const [attempts, setAttempts] = useState<AnswerAttempt[]>([]);
+  const [progress, setProgress] = useState<Awaited<ReturnType<typeof getAnswerProgress>>>([]);
+  const evaluationRef = useRef<AbortController | null>(null);
+
+  const current = questions[questionIdx];
+  const isFinished = questionIdx >= questions.length;
+
+  const refreshHistory = () => {
+    listAnswerAttempts(scenario.id)
+      .then(setAttempts)
+      .catch(err => console.error("Error loading answer attempts:", err));
+    getAnswerProgress()
+      .then(setProgress)
+      .catch(err => console.error("Error loading answer progress:", err));
+  };
+
+  useEffect(() => {
+    refreshHistory();
+    return () => evaluationRef.current?.abort();
+  }, [scenario.id]);
+
+  useEffect(() => {
+    if (!onHiddenFromChange) return;
+    if (isFinished) onHiddenFromChange(scenario.dialogue.length);
+    else onHiddenFromChange(isModelShown ? current.answerTurn + 1 : current.answerTurn);
+  }, [questionIdx, isModelShown, isFinished]);
+
+  const goTo = (idx: number) => {
+    evaluationRef.current?.abort();
+    setQuestionIdx(idx);
+    setAnswer('');
+    setFeedback(null);
+    setError(null);
+    setIsEvaluating(false);
+    setIsModelShown(false);
+  };
+
+  const handleSubmit = async () => {
+    const text = answer.trim();
+    if (!text || !current) return;
+    evaluationRef.current?.abort();
+    const controller = new AbortController();
+    evaluationRef.current = controller;
+    setIsEvaluating(true);
+    setError(null);
+    try {
+      const modelAnswer = scenario.dialogue[current.answerTurn].text;
+      const result = await evaluateAnswer(current.question, modelAnswer, text, profile, controller.signal);
+      setFeedback(result);
+      setSubmitted(text);
+      saveAnswerAttempt({ scenarioId: scenario.id, turnIndex: current.answerTurn, question: current.question, answer: text, feedback: result })
+        .then(refreshHistory)
+        .catch(err => console.error("Error saving answer attempt:", err));
+    } catch (err) {
+      if (getErrorCategory(err) === 'cancelled') return;
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      if (evaluationRef.current === controller) setIsEvaluating(false);
+    }
+  };
+
+  const playQuestion = () => {
+    if (!timings || !current) return;
+    const first = current.questionTurns[0];
+    const last = current.questionTurns[current.questionTurns.length - 1];
+    playerRef.current?.playRange(timings[first].start, timings[last].end);
+  };
+
+  const corrections = feedback ? diffCorrections(submitted, feedback.correctedAnswer) : [];
+  const questionAttempts = current ? attempts.filter(a => a.turnIndex === current.answerTurn) : [];
+  const recentProgress = progress.slice(-7);
+
+  if (!questions.length) {
+    return (
+      <div className="mt-6 p-6 bg-slate-900/60 rounded-[2rem] border border-violet-500/30 flex items-center justify-between">
+        <p className="text-slate-400 text-sm">This dialogue has no interviewer questions to answer.</p>
+        <button onClick={onExit} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Exit</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 p-6 bg-slate-900/60 rounded-[2rem] border border-violet-500/30 space-y-5">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-[0.2em] text-violet-300">
+          Answer in writing {!isFinished && `• Question ${questionIdx + 1} of ${questions.length}`}
+        </p>
+        <button onClick={onExit} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Exit</button>
+      </div>
+
+      {isFinished ? (
+        <div className="space-y-4">
+          <p className="text-slate-300 font-bold">You've answered every question in this interview.</p>
+          <button onClick={() => goTo(0)} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-violet-500 hover:bg-violet-600 text-white">Start Over</button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-sky-100 text-lg leading-relaxed">{current.question}</p>
+            {timings && (
+              <button onClick={playQuestion} className="shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-200 border border-slate-700 hover:border-slate-500">
+                Play
+              </button>
+            )}
+          </div>
+
+          {!feedback && (
+            <>
+              <textarea
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                rows={5}
+                placeholder="Write your answer as you would say it in the interview..."
+                className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-violet-500"
+              />
+              {error && <p className="text-red-300 text-sm font-bold">{error}</p>}
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={handleSubmit}
+                  disabled={!answer.trim() || isEvaluating}
+                  className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-violet-500 hover:bg-violet-600 text-white disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isEvaluating ? 'Checking...' : 'Get Feedback'}
+                  {isEvaluating && <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>}
+                </button>
+                <button onClick={() => goTo(questionIdx + 1)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Skip</button>
+              </div>
+            </>
+          )}
+
+          {feedback && (
+            <div className="space-y-5">
+              <p className="text-violet-200 font-bold">{feedback.summary}</p>
+              <ScoreBars scores={feedback.scores} />
+
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Corrections</p>
+                {corrections.every(t => t.kind === 'kept') ? (
+                  <p className="text-emerald-300 text-sm font-bold">No grammar mistakes found.</p>
+                ) : (
+                  <Corrections tokens={corrections} />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">More natural</p>
+                <p className="text-slate-200 leading-relaxed">{feedback.rewrite}</p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Structure{feedback.structure.framework === 'STAR' && ' • STAR'}</p>
+                <p className="text-slate-300 text-sm leading-relaxed">{feedback.structure.comment}</p>
+                {feedback.structure.missing.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {feedback.structure.missing.map(part => (
+                      <span key={part} className="text-[9px] px-2 py-1 rounded-lg font-black uppercase tracking-widest bg-amber-500/20 text-amber-200">Missing: {part}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {isModelShown ? (
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Model answer</p>
+                  <p className="text-slate-300 italic leading-relaxed">{scenario.dialogue[current.answerTurn].text}</p>
+                </div>
+              ) : (
+                <button onClick={() => setIsModelShown(true)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-300">Show model answer</button>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3">
+                <button onClick={() => setFeedback(null)} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-200 border border-slate-700 hover:border-slate-500">Try Again</button>
+                <button onClick={() => goTo(questionIdx + 1)} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-violet-500 hover:bg-violet-600 text-white">Next Question</button>
+              </div>
+            </div>
+          )}
+
+          {questionAttempts.length > 0 && (
+            <div className="pt-4 border-t border-slate-700/50 space-y-2">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Your attempts at this question</p>
+              <div className="flex flex-wrap gap-2">
+                {questionAttempts.map(a => (
+                  <span key={a.id} title={a.answer} className="text-xs bg-slate-800 text-slate-300 px-3 py-1 rounded-lg tabular-nums">
+                    {formatDate(a.createdAt)} • {averageScore(a.feedback).toFixed(1)}/5
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {recentProgress.length > 1 && (
+        <div className="pt-4 border-t border-slate-700/50 space-y-2">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Average score by day, all interviews</p>
+          <div className="flex items-end gap-2 h-16">
+            {recentProgress.map(day => {
+              const average = ANSWER_CRITERIA.reduce((sum, c) => sum + day.scores[c], 0) / ANSWER_CRITERIA.length;
+              return (
+                <div key={day.day} className="flex-1 flex flex-col items-center gap-1" title={`${day.count} answer${day.count === 1 ? '' : 's'} • ${average.toFixed(1)}/5`}>
+                  <div className="w-full bg-violet-500/70 rounded-t" style={{ height: `${(average / 5) * 48}px` }}></div>
+                  <span className="text-[9px] text-slate-500">{formatDate(day.day)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+
+import React, { useState, useEffect } from 'react';
+import { CacheStats, CacheKind } from '../types';
+import { getCacheStats, clearCache } from '../services/cacheService';
+
+const KIND_LABELS: Record<CacheKind, string> = {
+  definition: 'Definitions',
+  audio: 'Dialogue audio',
+  pronunciation: 'Pronunciations'
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const CacheSettings: React.FC = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+
+  const refresh = () => {
+    getCacheStats()
+      .then(setStats)
+      .catch(err => console.error("Error loading cache stats:", err));
+  };
+
+  useEffect(refresh, []);
+
+  const handleClear = async () => {
+    if (!confirm('Clear all cached definitions, pronunciations and audio? They will be fetched again when needed.')) return;
+    try {
+      await clearCache();
+      refresh();
+    } catch (err) {
+      console.error("Error clearing cache:", err);
+    }
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-500";
+  const used = stats ? Object.values(stats.byKind).reduce((sum, k) => sum + k.size, 0) : 0;
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <div className="w-full max-w-xl bg-slate-800/60 p-8 md:p-10 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-6">
+      <div>
+        <h3 className="text-lg font-black">Cache</h3>
+        <p className="text-slate-400 text-sm mt-1">Word definitions, pronunciations and dialogue audio are kept on this device, so repeating a request costs nothing. The least recently used are removed first when it fills up.</p>
+      </div>
+
+      {stats && (
+        <>
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className={labelClass}>Used</span>
+              <span className="text-xs font-bold text-slate-300 tabular-nums">{formatSize(used)} of {formatSize(stats.limit)}</span>
+            </div>
+            <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+              <div className="h-full bg-sky-500" style={{ width: `${Math.min(100, (used / stats.limit) * 100)}%` }}></div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {(Object.keys(KIND_LABELS) as CacheKind[]).map(kind => (
+              <div key={kind} className="bg-slate-900/60 rounded-2xl p-4 space-y-1">
+                <p className={labelClass}>{KIND_LABELS[kind]}</p>
+                <p className="text-xl font-black text-sky-400 tabular-nums">{stats.byKind[kind].entries}</p>
+                <p className="text-xs text-slate-500">{formatSize(stats.byKind[kind].size)}</p>
+              </div>
+            ))}
+            <div className="bg-slate-900/60 rounded-2xl p-4 space-y-1">
+              <p className={labelClass}>Hit rate</p>
+              <p className="text-xl font-black text-sky-400 tabular-nums">{lookups ? `${Math.round((stats.hits / lookups) * 100)}%` : '—'}</p>
+              <p className="text-xs text-slate-500">{stats.hits} of {lookups} this session</p>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={handleClear} className="bg-slate-900 hover:bg-slate-700 border border-slate-700 text-slate-200 px-6 py-2 rounded-xl font-bold transition-all active:scale-95">Clear Cache</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { PracticeSession } from '../types';
+import { listSessions, summarizeSessions, exportAnalyticsJson } from '../services/analyticsService';
+import { downloadFile } from '../services/exportService';
+
+interface DashboardScreenProps {
+  onClose: () => void;
+}
+
+const formatMinutes = (minutes: number) => minutes < 60 ? `${Math.round(minutes)} min` : `${(minutes / 60).toFixed(1)} h`;
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const DashboardScreen: React.FC<DashboardScreenProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<PracticeSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error("Error loading sessions:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const summary = useMemo(() => summarizeSessions(sessions), [sessions]);
+  const busiestWeek = Math.max(1, ...summary.weeklyMinutes.map(w => w.minutes));
+  const recent = sessions.slice(-5).reverse();
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(exportAnalyticsJson(sessions), `practice-analytics-${date}.json`, 'application/json');
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-500";
+  const cardClass = "w-full bg-slate-800/60 p-8 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-5";
+
+  return (
+    <div className="flex flex-col items-center min-h-[60vh] space-y-8 animate-in fade-in duration-700">
+      <div className="w-full max-w-3xl flex items-center justify-between">
+        <h2 className="text-2xl font-black text-sky-400">Progress</h2>
+        <div className="flex items-center gap-4">
+          <button onClick={handleExport} disabled={!sessions.length} className="text-xs font-black uppercase tracking-widest text-sky-400 hover:text-sky-300 disabled:opacity-40">Export JSON</button>
+          <button onClick={onClose} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white">Back to practice</button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="w-8 h-8 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+      ) : !sessions.length ? (
+        <p className="text-slate-400">No sessions yet. Generate or open a scenario and your practice will show up here.</p>
+      ) : (
+        <div className="w-full max-w-3xl space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Current streak', value: `${summary.currentStreak} day${summary.currentStreak === 1 ? '' : 's'}` },
+              { label: 'Longest streak', value: `${summary.longestStreak} day${summary.longestStreak === 1 ? '' : 's'}` },
+              { label: 'Listened', value: formatMinutes(summary.totalMinutes) },
+              { label: 'Sessions', value: String(summary.totalSessions) }
+            ].map(stat => (
+              <div key={stat.label} className="bg-slate-800/60 p-5 rounded-[2rem] border border-slate-700/50">
+                <p className={labelClass}>{stat.label}</p>
+                <p className="text-2xl font-black text-slate-100 mt-1 tabular-nums">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className={cardClass}>
+            <p className={labelClass}>Listening per week</p>
+            <div className="flex items-end gap-3 h-32">
+              {summary.weeklyMinutes.map(week => (
+                <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end gap-1 h-full" title={formatMinutes(week.minutes)}>
+                  <div className="w-full bg-sky-500/70 rounded-t" style={{ height: `${(week.minutes / busiestWeek) * 100}%` }}></div>
+                  <span className="text-[9px] text-slate-500 whitespace-nowrap">{formatDate(week.weekStart)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className={cardClass}>
+              <p className={labelClass}>Most looked-up words</p>
+              {summary.topWords.length ? (
+                <ol className="space-y-2">
+                  {summary.topWords.map(({ word, count }) => (
+                    <li key={word} className="flex justify-between text-sm">
+                      <span className="font-bold text-slate-200">{word}</span>
+                      <span className="text-slate-500 tabular-nums">{count}×</span>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-slate-500 text-sm">Click a word in a dialogue to look it up.</p>
+              )}
+            </div>
+
+            <div className={cardClass}>
+              <p className={labelClass}>Recent sessions</p>
+              <ul className="space-y-3">
+                {recent.map(s => (
+                  <li key={s.id} className="text-sm">
+                    <p className="font-bold text-slate-200 truncate">{s.title}</p>
+                    <p className="text-slate-500 text-xs">
+                      {formatDate(s.startedAt)} • {s.level} • {formatMinutes(s.secondsListened / 60)} listened • {s.wordsLookedUp.length} lookups • {s.translationsRevealed} translations
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className={cardClass}>
+            <p className={labelClass}>By topic</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 text-[10px] font-black uppercase tracking-widest">
+                  <th className="pb-2 font-black">Topic</th>
+                  <th className="pb-2 font-black text-right">Sessions</th>
+                  <th className="pb-2 font-black text-right">Listened</th>
+                  <th className="pb-2 font-black text-right">Quiz</th>
+                  <th className="pb-2 font-black text-right">Dictation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.topics.map(t => (
+                  <tr key={t.topic} className="border-t border-slate-700/50 text-slate-300 tabular-nums">
+                    <td className="py-2 font-bold text-slate-200">{t.topicName}</td>
+                    <td className="py-2 text-right">{t.sessions}</td>
+                    <td className="py-2 text-right">{formatMinutes(t.minutesListened)}</td>
+                    <td className="py-2 text-right">{formatPercent(t.quizAccuracy)}</td>
+                    <td className="py-2 text-right">{formatPercent(t.dictationAccuracy)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Scenario, TurnTiming } from '../types';
+import { VoicePlayerHandle } from './VoicePlayer';
+import { scoreDictation, overallAccuracy, DictationScore, DiffToken } from '../services/dictation';
+import { translationAttrs, getLanguage } from '../services/languages';
+
+interface DictationPanelProps {
+  scenario: Scenario;
+  timings: TurnTiming[];
+  playerRef: React.RefObject<VoicePlayerHandle | null>;
+  // Index of the turn being transcribed; dialogue.length once every turn is done.
+  onCurrentTurnChange?: (idx: number) => void;
+  onChecked?: (score: DictationScore) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 0.8, 1];
+
+const TOKEN_STYLES: Record<DiffToken['kind'], string> = {
+  correct: 'text-emerald-300',
+  missing: 'text-red-300 underline decoration-dashed',
+  extra: 'text-amber-300 line-through',
+  misspelled: 'text-sky-300'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const DictationPanel: React.FC<DictationPanelProps> = ({ scenario, timings, playerRef, onCurrentTurnChange, onChecked, onExit }) => {
+  const [turnIdx, setTurnIdx] = useState(0);
+  const [input, setInput] = useState('');
+  const [showHint, setShowHint] = useState(false);
+  // The learner's own player speed, put back when dictation ends.
+  const initialSpeedRef = useRef(playerRef.current?.getSpeed() ?? 1);
+  const [speed, setSpeed] = useState(initialSpeedRef.current);
+  const [scores, setScores] = useState<Record<number, DictationScore>>({});
+
+  const turn = scenario.dialogue[turnIdx];
+  const currentScore = scores[turnIdx];
+  const isFinished = turnIdx >= scenario.dialogue.length;
+
+  useEffect(() => {
+    if (onCurrentTurnChange) onCurrentTurnChange(turnIdx);
+  }, [turnIdx]);
+
+  useEffect(() => {
+    return () => playerRef.current?.setSpeed(initialSpeedRef.current);
+  }, []);
+
+  const playTurn = () => {
+    if (!timings[turnIdx]) return;
+    playerRef.current?.playRange(timings[turnIdx].start, timings[turnIdx].end);
+  };
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    playerRef.current?.setSpeed(value);
+  };
+
+  const handleCheck = () => {
+    if (!turn || !input.trim()) return;
+    const score = scoreDictation(turn.text, input);
+    setScores(prev => ({ ...prev, [turnIdx]: score }));
+    if (onChecked) onChecked(score);
+  };
+
+  const handleNext = () => {
+    setTurnIdx(idx => idx + 1);
+    setInput('');
+    setShowHint(false);
+  };
+
+  const handleRestart = () => {
+    setScores({});
+    setTurnIdx(0);
+    setInput('');
+    setShowHint(false);
+  };
+
+  const checkedScores = Object.values(scores);
+
+  return (
+    <div className="mt-6 p-6 bg-slate-900/60 rounded-[2rem] border border-emerald-500/30 space-y-5">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-[0.2em] text-emerald-300">
+          Dictation {isFinished ? '' : `• Line ${turnIdx + 1} of ${scenario.dialogue.length}`}
+        </p>
+        <div className="flex items-center gap-4">
+          {checkedScores.length > 0 && (
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Overall {formatPercent(overallAccuracy(checkedScores))}</span>
+          )}
+          <button onClick={onExit} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Exit</button>
+        </div>
+      </div>
+
+      {!isFinished && turn && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={playTurn} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-emerald-500 hover:bg-emerald-600 text-white">
+              Play Line
+            </button>
+            <div className="flex bg-slate-800 p-1 rounded-full border border-slate-700">
+              {SPEEDS.map(s => (
+                <button key={s} onClick={() => changeSpeed(s)} className={`px-3 py-1 rounded-full text-[10px] font-black transition-all ${speed === s ? 'bg-emerald-500 text-white' : 'text-slate-400 hover:text-slate-200'}`}>{s}x</button>
+              ))}
+            </div>
+            <button onClick={() => setShowHint(h => !h)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-300">
+              {showHint ? 'Hide hint' : `${getLanguage(turn.translation.lang).name} hint`}
+            </button>
+          </div>
+
+          {showHint && <p className="text-sky-100 text-lg leading-loose translation" {...translationAttrs(turn.translation.lang)}>{turn.translation.text}</p>}
+
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={!!currentScore}
+            placeholder="Type what you heard..."
+            rows={3}
+            className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-2xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-70"
+          />
+
+          {currentScore ? (
+            <div className="space-y-4">
+              <p className="leading-loose">
+                {currentScore.tokens.map((token, i) => (
+                  <span key={i} className={`mr-1.5 ${TOKEN_STYLES[token.kind]}`} title={token.kind === 'misspelled' ? `You wrote "${token.actual}"` : token.kind}>
+                    {token.kind === 'extra' ? token.actual : token.expected}
+                  </span>
+                ))}
+              </p>
+              <div className="flex items-center justify-between">
+                <p className="font-black">Accuracy <span className="text-emerald-300">{formatPercent(currentScore.accuracy)}</span></p>
+                <button onClick={handleNext} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-sky-500 hover:bg-sky-600 text-white">Next Line</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={handleCheck} disabled={!input.trim()} className="w-full bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white py-3 rounded-2xl font-black transition-all active:scale-95">Check</button>
+          )}
+        </div>
+      )}
+
+      {isFinished && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-slate-300 font-bold">Done! Overall accuracy {formatPercent(overallAccuracy(checkedScores))}.</p>
+          <button onClick={handleRestart} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-emerald-500 hover:bg-emerald-600 text-white">Start Over</button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-[9px] font-black uppercase tracking-widest">
+        <span className={TOKEN_STYLES.correct}>Correct</span>
+        <span className={TOKEN_STYLES.misspelled}>Misspelled</span>
+        <span className={TOKEN_STYLES.missing}>Missing</span>
+        <span className={TOKEN_STYLES.extra}>Extra</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+
+import React from 'react';
+import { DraftScenario } from '../types';
+import { translationAttrs } from '../services/languages';
+
+interface DraftDialogueProps {
+  draft: DraftScenario | null;
+  onCancel: () => void;
+}
+
+// Shows a dialogue while it is still being written, one turn at a time.
+export const DraftDialogue: React.FC<DraftDialogueProps> = ({ draft, onCancel }) => {
+  const turns = draft?.dialogue || [];
+
+  return (
+    <div className="flex flex-col items-center min-h-[50vh] space-y-8 animate-in fade-in duration-700">
+      <div className="flex items-center gap-4">
+        <div className="w-8 h-8 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+        <div>
+          <p className="text-sky-400 font-bold text-lg animate-pulse">Writing Custom Dialogue...</p>
+          <p className="text-slate-500 text-sm">{turns.length ? `${turns.length} line${turns.length === 1 ? '' : 's'} so far` : 'Setting the stage for your practice.'}</p>
+        </div>
+        <button onClick={onCancel} className="ml-4 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white">Cancel</button>
+      </div>
+
+      {draft?.title && (
+        <div className="w-full max-w-3xl bg-slate-800/40 p-6 md:p-8 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-6">
+          <div>
+            <h2 className="text-3xl font-black text-sky-400">{draft.title}</h2>
+            {draft.context && <p className="text-slate-400 mt-2 italic text-sm p-5 bg-slate-900/50 rounded-2xl border border-slate-700/30 leading-relaxed">{draft.context}</p>}
+          </div>
+          <div className="space-y-4">
+            {turns.map((turn, idx) => (
+              <div key={idx} className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">{turn.speaker}</p>
+                <p className="text-slate-100 leading-relaxed">{turn.text}</p>
+                {turn.translation.text && (
+                  <p className="text-slate-500 text-sm mt-1 translation" {...translationAttrs(turn.translation.lang)}>{turn.translation.text}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+
+import React, { useState } from 'react';
+import { Scenario, TurnTiming, VocabularyItem } from '../types';
+import { getLanguage } from '../services/languages';
+import {
+  slugify, downloadFile, base64PcmToWav, base64PcmRangeToWav, buildWebVtt, buildSrt,
+  buildMarkdownTranscript, buildHtmlTranscript, SubtitleTrack
+} from '../services/exportService';
+
+interface ExportMenuProps {
+  scenario: Scenario;
+  base64Audio: string | null;
+  timings?: TurnTiming[];
+  vocabulary: VocabularyItem[];
+  // Region dragged out on the player's waveform, if any.
+  selection?: TurnTiming | null;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ scenario, base64Audio, timings, vocabulary, selection }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const baseName = slugify(scenario.title);
+  const languageName = scenario.dialogue[0] ? getLanguage(scenario.dialogue[0].translation.lang).name : 'Translation';
+  const tracks: { track: SubtitleTrack; label: string }[] = [
+    { track: 'english', label: 'English' },
+    { track: 'translation', label: languageName },
+    { track: 'bilingual', label: 'Bilingual' }
+  ];
+
+  const exportSubtitles = (format: 'vtt' | 'srt', track: SubtitleTrack) => {
+    if (!timings) return;
+    const content = format === 'vtt' ? buildWebVtt(scenario, timings, track) : buildSrt(scenario, timings, track);
+    downloadFile(content, `${baseName}.${track}.${format}`, format === 'vtt' ? 'text/vtt' : 'application/x-subrip');
+  };
+
+  const itemClass = "w-full text-left px-4 py-2 text-xs font-bold text-slate-300 hover:bg-slate-700/60 hover:text-white rounded-lg disabled:opacity-40 disabled:pointer-events-none";
+  const sectionClass = "px-4 pt-3 pb-1 text-[9px] font-black uppercase tracking-widest text-slate-500";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="bg-slate-900/60 hover:bg-slate-900 border border-slate-700/50 text-slate-300 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 z-40 bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-2" onMouseLeave={() => setIsOpen(false)}>
+          <p className={sectionClass}>Audio</p>
+          <button className={itemClass} disabled={!base64Audio} onClick={() => base64Audio && downloadFile(base64PcmToWav(base64Audio), `${baseName}.wav`, 'audio/wav')}>
+            Dialogue audio (.wav)
+          </button>
+          <button
+            className={itemClass}
+            disabled={!base64Audio || !selection}
+            onClick={() => base64Audio && selection && downloadFile(base64PcmRangeToWav(base64Audio, selection.start, selection.end), `${baseName}.clip.wav`, 'audio/wav')}
+          >
+            Selected clip (.wav)
+          </button>
+
+          <p className={sectionClass}>Subtitles</p>
+          {tracks.map(({ track, label }) => (
+            <div key={track} className="flex gap-1">
+              <button className={itemClass} disabled={!timings} onClick={() => exportSubtitles('vtt', track)}>{label} .vtt</button>
+              <button className={itemClass} disabled={!timings} onClick={() => exportSubtitles('srt', track)}>{label} .srt</button>
+            </div>
+          ))}
+
+          <p className={sectionClass}>Transcript</p>
+          <button className={itemClass} onClick={() => downloadFile(buildMarkdownTranscript(scenario, vocabulary), `${baseName}.md`, 'text/markdown')}>
+            Markdown (.md)
+          </button>
+          <button className={itemClass} onClick={() => downloadFile(buildHtmlTranscript(scenario, vocabulary), `${baseName}.html`, 'text/html')}>
+            Printable page (.html)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+
+import React, { useState } from 'react';
+import { InterviewSource } from '../types';
+
+interface InterviewSourcePanelProps {
+  initialSource?: InterviewSource;
+  onGenerate: (source: InterviewSource) => void;
+  onClose: () => void;
+}
+
+const MIN_JOB_DESCRIPTION_LENGTH = 80;
+
+export const InterviewSourcePanel: React.FC<InterviewSourcePanelProps> = ({ initialSource, onGenerate, onClose }) => {
+  const [jobDescription, setJobDescription] = useState(initialSource?.jobDescription || '');
+  const [cv, setCv] = useState(initialSource?.cv || '');
+
+  const canGenerate = jobDescription.trim().length >= MIN_JOB_DESCRIPTION_LENGTH;
+
+  const handleGenerate = () => {
+    if (!canGenerate) return;
+    onGenerate({ jobDescription: jobDescription.trim(), cv: cv.trim() || undefined });
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-500";
+  const inputClass = "w-full bg-slate-950 border border-slate-700 text-slate-100 text-sm rounded-2xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-sky-500 scrollbar-thin scrollbar-thumb-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div className="w-full max-w-xl h-full bg-slate-900 border-l border-slate-800 p-8 overflow-y-auto shadow-2xl space-y-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black text-sky-400">Tailored Interview</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white p-2 rounded-full transition-all" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <p className="text-slate-400 text-sm">Questions come from the posting's requirements and the model answers from your CV. The level and length selected in the header apply.</p>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Job description</span>
+          <textarea value={jobDescription} onChange={(e) => setJobDescription(e.target.value)} rows={12} placeholder="Paste the full job posting..." className={inputClass} />
+        </label>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Your CV (optional)</span>
+          <textarea value={cv} onChange={(e) => setCv(e.target.value)} rows={8} placeholder="Paste your CV as plain text..." className={inputClass} />
+        </label>
+
+        <button onClick={handleGenerate} disabled={!canGenerate} className="w-full bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white py-3 rounded-2xl font-black transition-all active:scale-95">
+          Generate Interview
+        </button>
+        {!canGenerate && jobDescription.trim().length > 0 && (
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 text-center">Paste the whole posting so there are requirements to ask about</p>
+        )}
+      </div>
+    </div>
+  );
+};
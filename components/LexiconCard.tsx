@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { VocabularyItem, Register } from '../types';
+import { translationAttrs } from '../services/languages';
+import { PronounceButton } from './PronounceButton';
+
+const REGISTER_STYLES: Record<Register, string> = {
+  formal: 'bg-indigo-500/20 text-indigo-200',
+  neutral: 'bg-slate-800 text-slate-400',
+  informal: 'bg-amber-500/20 text-amber-200'
+};
+
+const badgeClass = "inline-block text-[9px] px-2 py-1 rounded-lg font-black uppercase tracking-widest";
+const listLabelClass = "font-black uppercase tracking-widest text-[9px] text-slate-500 mr-1";
+
+interface LexiconCardProps {
+  item: VocabularyItem;
+}
+
+export const LexiconCard: React.FC<LexiconCardProps> = ({ item }) => (
+  <div className={`p-6 rounded-[2rem] border transition-all duration-500 ${
+    item.isCustom 
+      ? 'bg-sky-500/15 border-sky-500/40 ring-1 ring-sky-500/20 shadow-sky-500/10 shadow-lg' 
+      : 'bg-slate-900/60 border-slate-700/50 hover:border-slate-500/50 hover:bg-slate-900/90'
+  }`}>
+    <div className="flex justify-between items-start gap-3 mb-2">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-lg font-black text-sky-400 tracking-tight">{item.word}</span>
+          <PronounceButton text={item.word} />
+        </div>
+        {item.ipa && <p className="text-xs text-slate-500 font-mono">/{item.ipa}/</p>}
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {item.cefr && <span className={`${badgeClass} bg-sky-500/20 text-sky-200`}>{item.cefr}</span>}
+        <span className={`${badgeClass} bg-slate-800 text-slate-500`}>{item.partOfSpeech}</span>
+      </div>
+    </div>
+    <p className="text-sm text-slate-300 mb-4 leading-relaxed">{item.englishMeaning}</p>
+
+    {item.examples && (
+      <ul className="mb-4 space-y-1 border-l-2 border-slate-700 pl-3">
+        {item.examples.map((example, idx) => (
+          <li key={idx} className="text-xs text-slate-400 italic leading-relaxed">{example}</li>
+        ))}
+      </ul>
+    )}
+
+    {(item.register || item.alternatives || item.synonyms || item.collocations) && (
+      <div className="mb-4 space-y-2">
+        {item.register && <span className={`${badgeClass} ${REGISTER_STYLES[item.register]}`}>{item.register}</span>}
+        {item.alternatives && (
+          <p className="text-xs text-slate-400 leading-relaxed"><span className={listLabelClass}>Also</span>{item.alternatives.join(' • ')}</p>
+        )}
+        {item.synonyms && (
+          <p className="text-xs text-slate-400 leading-relaxed"><span className={listLabelClass}>Synonyms</span>{item.synonyms.join(', ')}</p>
+        )}
+        {item.collocations && (
+          <p className="text-xs text-slate-400 leading-relaxed"><span className={listLabelClass}>Goes with</span>{item.collocations.join(' • ')}</p>
+        )}
+      </div>
+    )}
+
+    <div className="pt-4 border-t border-slate-700/40 translation" {...translationAttrs(item.translation.lang)}>
+      <p className="text-sky-200 text-base font-bold">{item.translation.text}</p>
+    </div>
+  </div>
+);
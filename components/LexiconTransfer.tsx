@@ -0,0 +1,124 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { VocabularyItem, LearnerProfile } from '../types';
+import { downloadFile, slugify } from '../services/exportService';
+import { getErrorCategory } from '../services/errors';
+import {
+  exportVocabularyCsv, exportVocabularyAnki, exportVocabularyJson,
+  parseWordList, enrichWords, EnrichProgress
+} from '../services/lexiconTransfer';
+
+interface LexiconTransferProps {
+  items: VocabularyItem[];
+  fileName: string;
+  profile: LearnerProfile;
+  onImported: (items: VocabularyItem[]) => void;
+}
+
+export const LexiconTransfer: React.FC<LexiconTransferProps> = ({ items, fileName, profile, onImported }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [progress, setProgress] = useState<EnrichProgress | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [failedWords, setFailedWords] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importRef = useRef<AbortController | null>(null);
+  const baseName = `${slugify(fileName)}-lexicon`;
+
+  useEffect(() => {
+    return () => importRef.current?.abort();
+  }, []);
+
+  const handleExport = (format: 'csv' | 'anki' | 'json') => {
+    setIsMenuOpen(false);
+    if (format === 'csv') downloadFile(exportVocabularyCsv(items), `${baseName}.csv`, 'text/csv');
+    if (format === 'anki') downloadFile(exportVocabularyAnki(items), `${baseName}.anki.txt`, 'text/tab-separated-values');
+    if (format === 'json') downloadFile(exportVocabularyJson(items), `${baseName}.json`, 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    setFailedWords([]);
+    const controller = new AbortController();
+    importRef.current = controller;
+    try {
+      const parsed = parseWordList(await file.text());
+      if (!parsed.length) {
+        setImportError("No words found in that file.");
+        return;
+      }
+      // Words already in the lexicon would only cost another lookup.
+      const known = new Set(items.map(v => v.word.toLowerCase()));
+      const words = parsed.filter(w => !known.has(w.word.toLowerCase()));
+      if (!words.length) {
+        setImportError("Every word in that file is already in your lexicon.");
+        return;
+      }
+      const enriched = await enrichWords(words, profile, p => {
+        setProgress(p);
+        setFailedWords(p.failed);
+      }, controller.signal);
+      onImported(enriched);
+    } catch (err) {
+      if (getErrorCategory(err) === 'cancelled') return;
+      console.error("Import error:", err);
+      setImportError("Couldn't read that file. Use CSV, TSV, JSON or one word per line.");
+    } finally {
+      if (importRef.current === controller) importRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const itemClass = "w-full text-left px-4 py-2 text-xs font-bold text-slate-300 hover:bg-slate-700/60 hover:text-white rounded-lg";
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <button
+            onClick={() => setIsMenuOpen(o => !o)}
+            disabled={!items.length}
+            className="w-full bg-slate-900/60 hover:bg-slate-900 border border-slate-700/50 text-slate-300 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+          >
+            Export
+          </button>
+          {isMenuOpen && (
+            <div className="absolute left-0 mt-2 w-full z-40 bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-2" onMouseLeave={() => setIsMenuOpen(false)}>
+              <button className={itemClass} onClick={() => handleExport('anki')}>Anki (.txt)</button>
+              <button className={itemClass} onClick={() => handleExport('csv')}>Spreadsheet (.csv)</button>
+              <button className={itemClass} onClick={() => handleExport('json')}>JSON (.json)</button>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!progress}
+          className="flex-1 bg-slate-900/60 hover:bg-slate-900 border border-slate-700/50 text-slate-300 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+        >
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-3">
+            <div className="flex-1 h-2 bg-slate-950 rounded-full overflow-hidden">
+              <div className="h-full bg-sky-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+            </div>
+            <button onClick={() => importRef.current?.abort()} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Cancel</button>
+          </div>
+          <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">
+            Looking up {progress.done}/{progress.total}{progress.failed.length ? ` • ${progress.failed.length} failed` : ''}
+          </p>
+        </div>
+      )}
+      {!progress && failedWords.length > 0 && (
+        <p className="text-amber-300 text-xs font-bold">Couldn't look up: {failedWords.join(', ')}</p>
+      )}
+      {importError && <p className="text-red-300 text-xs font-bold">{importError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { LibraryEntry, TopicDefinition } from '../types';
+import { listLibraryEntries, renameLibraryEntry, deleteLibraryEntry, searchLibraryEntries } from '../services/libraryService';
+import { getTopicName } from '../services/topicService';
+
+interface LibraryPanelProps {
+  activeId: string | null;
+  topics: TopicDefinition[];
+  onOpen: (entry: LibraryEntry) => void;
+  onClose: () => void;
+  onRenamed?: (entry: LibraryEntry) => void;
+  onDeleted?: (id: string) => void;
+}
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ activeId, topics, onOpen, onClose, onRenamed, onDeleted }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  useEffect(() => {
+    listLibraryEntries()
+      .then(setEntries)
+      .catch(err => console.error("Error loading library:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = useMemo(() => searchLibraryEntries(entries, query, topics), [entries, query, topics]);
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setDraftTitle(entry.title);
+  };
+
+  const commitRename = () => {
+    if (!editingId) return;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    setError(null);
+    renameLibraryEntry(editingId, title)
+      .then(updated => {
+        if (!updated) return;
+        setEntries(prev => prev.map(e => e.id === updated.id ? updated : e));
+        if (onRenamed) onRenamed(updated);
+      })
+      .catch(err => {
+        console.error("Error renaming library entry:", err);
+        setError("Couldn't rename that scenario. Please try again.");
+      });
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (!confirm(`Delete "${entry.title}" from your library?`)) return;
+    setError(null);
+    deleteLibraryEntry(entry.id)
+      .then(() => {
+        setEntries(prev => prev.filter(e => e.id !== entry.id));
+        if (onDeleted) onDeleted(entry.id);
+      })
+      .catch(err => {
+        console.error("Error deleting library entry:", err);
+        setError("Couldn't delete that scenario. Please try again.");
+      });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-slate-900 border-l border-slate-800 p-8 overflow-y-auto shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-black text-sky-400">Library</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white p-2 rounded-full transition-all" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title, topic or level"
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-xl px-4 py-2.5 mb-6 focus:outline-none focus:ring-2 focus:ring-sky-500"
+        />
+
+        {error && <p className="text-red-300 text-xs font-bold mb-4">{error}</p>}
+
+        {isLoading && <div className="w-6 h-6 mx-auto border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>}
+
+        {!isLoading && filtered.length === 0 && (
+          <div className="text-center py-10 opacity-30">
+            <p className="text-sm font-bold uppercase tracking-widest">{entries.length ? 'No matches' : 'No saved scenarios yet'}</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {filtered.map(entry => (
+            <div key={entry.id} className={`p-5 rounded-2xl border transition-all ${entry.id === activeId ? 'bg-sky-500/15 border-sky-500/40' : 'bg-slate-800/60 border-slate-700/50 hover:border-slate-500/50'}`}>
+              {editingId === entry.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                  className="w-full bg-slate-950 border border-slate-700 text-slate-100 font-bold rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                />
+              ) : (
+                <button onClick={() => onOpen(entry)} className="text-left font-black text-slate-100 hover:text-sky-300 transition-colors">{entry.title}</button>
+              )}
+              <div className="flex flex-wrap gap-2 mt-3">
+                {[getTopicName(topics, entry.topic), entry.level, entry.duration].map(tag => (
+                  <span key={tag} className="text-[9px] bg-slate-900 text-slate-400 px-2 py-1 rounded-lg font-black uppercase tracking-widest">{tag}</span>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-[10px] text-slate-500 font-bold">{new Date(entry.updatedAt).toLocaleDateString()}</span>
+                <div className="flex gap-3">
+                  <button onClick={() => startRename(entry)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-300">Rename</button>
+                  <button onClick={() => handleDelete(entry)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-400">Delete</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+
+import React, { useState } from 'react';
+import { generatePronunciation, decodeBase64, decodeAudioData } from '../services/geminiService';
+
+// Shared by every button so the page never holds more than one extra context.
+let audioContext: AudioContext | null = null;
+
+interface PronounceButtonProps {
+  text: string;
+}
+
+export const PronounceButton: React.FC<PronounceButtonProps> = ({ text }) => {
+  const [state, setState] = useState<'idle' | 'loading' | 'playing' | 'error'>('idle');
+
+  const play = async () => {
+    if (state === 'loading' || state === 'playing') return;
+    setState('loading');
+    try {
+      audioContext = audioContext || new AudioContext();
+      await audioContext.resume();
+      const buffer = await decodeAudioData(decodeBase64(await generatePronunciation(text)), audioContext);
+      const source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioContext.destination);
+      source.onended = () => setState('idle');
+      source.start();
+      setState('playing');
+    } catch (err) {
+      console.error("Error playing pronunciation:", err);
+      setState('error');
+    }
+  };
+
+  return (
+    <button
+      onClick={play}
+      title={state === 'error' ? "Couldn't load the pronunciation. Click to try again." : `Pronounce "${text}"`}
+      className={`w-7 h-7 flex items-center justify-center rounded-full transition-all ${
+        state === 'error' ? 'bg-red-500/20 text-red-300' : state === 'playing' ? 'bg-sky-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-sky-300'
+      }`}
+    >
+      {state === 'loading' ? (
+        <div className="w-3 h-3 border-2 border-sky-400 border-t-transparent rounded-full animate-spin"></div>
+      ) : (
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" /></svg>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,199 @@
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Scenario, QuizQuestion, QuizResult, OrderingQuestion, LearnerProfile } from '../types';
+import { buildQuiz, shuffle, isCorrectAnswer, getReviewTurn, saveQuizResult, listQuizResults } from '../services/quizService';
+import { getErrorMessage, getErrorCategory } from '../services/errors';
+
+interface QuizPanelProps {
+  scenario: Scenario;
+  profile: LearnerProfile;
+  onShowTurn: (idx: number) => void;
+  onSubmitted?: (result: QuizResult) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<QuizQuestion['kind'], string> = {
+  content: 'Comprehension',
+  speaker: 'Who said it?',
+  vocabulary: 'Vocabulary in context',
+  ordering: 'Order of events'
+};
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({ scenario, profile, onShowTurn, onSubmitted, onClose }) => {
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [responses, setResponses] = useState<Record<string, number | number[]>>({});
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [history, setHistory] = useState<QuizResult[]>([]);
+  const loadingRef = useRef<AbortController | null>(null);
+
+  const loadQuiz = () => {
+    loadingRef.current?.abort();
+    const controller = new AbortController();
+    loadingRef.current = controller;
+    setQuestions(null);
+    setError(null);
+    setResponses({});
+    setResult(null);
+    buildQuiz(scenario, profile, controller.signal)
+      .then(setQuestions)
+      .catch(err => {
+        if (getErrorCategory(err) === 'cancelled') return;
+        console.error(err);
+        setError(getErrorMessage(err));
+      });
+  };
+
+  useEffect(() => {
+    loadQuiz();
+    listQuizResults(scenario.id)
+      .then(setHistory)
+      .catch(err => console.error("Error loading quiz results:", err));
+    return () => loadingRef.current?.abort();
+  }, [scenario.id]);
+
+  // Ordering events are displayed shuffled once per quiz so the answer isn't the display order.
+  const displayOrders = useMemo(() => {
+    const orders: Record<string, number[]> = {};
+    questions?.forEach(q => {
+      if (q.kind === 'ordering') {
+        orders[q.id] = shuffle(q.events.map((_, i) => i));
+      }
+    });
+    return orders;
+  }, [questions]);
+
+  const isComplete = !!questions && questions.every(q => {
+    const response = responses[q.id];
+    return q.kind === 'ordering' ? Array.isArray(response) && response.length === q.events.length : response !== undefined;
+  });
+
+  const placeEvent = (question: OrderingQuestion, eventIdx: number) => {
+    if (result) return;
+    setResponses(prev => {
+      const placed = (prev[question.id] as number[] | undefined) || [];
+      if (placed.includes(eventIdx)) return prev;
+      return { ...prev, [question.id]: [...placed, eventIdx] };
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!questions || !isComplete) return;
+    const answers = questions.map(q => ({
+      questionId: q.id,
+      response: responses[q.id],
+      correct: isCorrectAnswer(q, responses[q.id])
+    }));
+    try {
+      const saved = await saveQuizResult(scenario.id, answers);
+      setResult(saved);
+      setHistory(prev => [saved, ...prev]);
+      if (onSubmitted) onSubmitted(saved);
+    } catch (err) {
+      console.error("Error saving quiz result:", err);
+    }
+  };
+
+  // Quizzes differ in length, so the best attempt is the one with the highest share correct.
+  const best = history.reduce((a, b) => b.score / (b.total || 1) > a.score / (a.total || 1) ? b : a, history[0]);
+
+  const isWrong = (q: QuizQuestion) => !!result && !isCorrectAnswer(q, responses[q.id]);
+
+  return (
+    <div className="bg-slate-800/40 p-6 md:p-8 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-black text-sky-400">Comprehension Quiz</h3>
+          {history.length > 0 && (
+            <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest mt-1">
+              Last score {history[0].score}/{history[0].total} • Best {best.score}/{best.total} • {history.length} attempts
+            </p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white">Close</button>
+      </div>
+
+      {!questions && !error && (
+        <div className="flex items-center gap-4">
+          <div className="w-6 h-6 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-sky-400 font-bold animate-pulse">Writing your quiz...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="space-y-4">
+          <p className="text-red-300 font-bold">{error}</p>
+          <button onClick={loadQuiz} className="bg-sky-500 hover:bg-sky-600 text-white px-6 py-2 rounded-xl font-bold transition-all">Try Again</button>
+        </div>
+      )}
+
+      {questions?.map((q, qIdx) => (
+        <div key={q.id} className={`p-6 rounded-[2rem] border ${isWrong(q) ? 'border-red-500/40 bg-red-500/5' : result ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-slate-700/50 bg-slate-900/60'}`}>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">{qIdx + 1}. {KIND_LABELS[q.kind]}</p>
+          <p className="font-bold text-slate-100 mb-4 leading-relaxed">{q.prompt}</p>
+
+          {q.kind !== 'ordering' ? (
+            <div className="grid gap-2">
+              {q.options.map((option, oIdx) => {
+                const isSelected = responses[q.id] === oIdx;
+                const isAnswer = !!result && oIdx === q.answerIndex;
+                return (
+                  <button
+                    key={oIdx}
+                    disabled={!!result}
+                    onClick={() => setResponses(prev => ({ ...prev, [q.id]: oIdx }))}
+                    className={`text-left px-4 py-3 rounded-xl border text-sm transition-all ${
+                      isAnswer ? 'border-emerald-400 bg-emerald-500/15 text-emerald-200'
+                      : isSelected ? 'border-sky-400 bg-sky-500/15 text-sky-200'
+                      : 'border-slate-700 text-slate-300 enabled:hover:border-slate-500'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {displayOrders[q.id]?.map(eventIdx => {
+                const placed = (responses[q.id] as number[] | undefined) || [];
+                const position = placed.indexOf(eventIdx);
+                return (
+                  <button
+                    key={eventIdx}
+                    disabled={!!result || position !== -1}
+                    onClick={() => placeEvent(q, eventIdx)}
+                    className={`w-full flex items-start gap-3 text-left px-4 py-3 rounded-xl border text-sm transition-all ${position !== -1 ? 'border-sky-400 bg-sky-500/15 text-sky-200' : 'border-slate-700 text-slate-300 enabled:hover:border-slate-500'}`}
+                  >
+                    <span className="w-6 h-6 shrink-0 rounded-full bg-slate-800 flex items-center justify-center text-[10px] font-black">{position !== -1 ? position + 1 : ''}</span>
+                    <span>{q.events[eventIdx].text}</span>
+                  </button>
+                );
+              })}
+              {!result && (
+                <button onClick={() => setResponses(prev => ({ ...prev, [q.id]: [] }))} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-300">Reset order</button>
+              )}
+            </div>
+          )}
+
+          {isWrong(q) && (
+            <button onClick={() => onShowTurn(getReviewTurn(q, responses[q.id]))} className="mt-4 text-[10px] font-black uppercase tracking-widest text-sky-400 hover:text-sky-300">
+              See it in the dialogue →
+            </button>
+          )}
+        </div>
+      ))}
+
+      {questions && !result && (
+        <button onClick={handleSubmit} disabled={!isComplete} className="w-full bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white py-3 rounded-2xl font-black transition-all active:scale-95">Check Answers</button>
+      )}
+
+      {result && (
+        <div className="flex items-center justify-between gap-4 p-6 bg-slate-900/60 rounded-[2rem] border border-slate-700/50">
+          <p className="text-xl font-black">Score: <span className="text-sky-400">{result.score}/{result.total}</span></p>
+          <button onClick={loadQuiz} className="bg-sky-500 hover:bg-sky-600 text-white px-6 py-2 rounded-xl font-bold transition-all">New Quiz</button>
+        </div>
+      )}
+    </div>
+  );
+};
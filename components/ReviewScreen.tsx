@@ -0,0 +1,151 @@
+
+import React, { useState, useEffect } from 'react';
+import { ReviewCard } from '../types';
+import { listDeck, getDueCards, recordReview, removeFromDeck } from '../services/deckService';
+import { ReviewGrade } from '../services/srs';
+import { translationAttrs, getLanguage } from '../services/languages';
+
+interface ReviewScreenProps {
+  onClose: () => void;
+  onDeckChanged?: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: 'Again', className: 'bg-red-500/20 text-red-300 border-red-500/40 hover:bg-red-500/30' },
+  { grade: 3, label: 'Hard', className: 'bg-amber-500/20 text-amber-300 border-amber-500/40 hover:bg-amber-500/30' },
+  { grade: 4, label: 'Good', className: 'bg-sky-500/20 text-sky-300 border-sky-500/40 hover:bg-sky-500/30' },
+  { grade: 5, label: 'Easy', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40 hover:bg-emerald-500/30' }
+];
+
+export const ReviewScreen: React.FC<ReviewScreenProps> = ({ onClose, onDeckChanged }) => {
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listDeck()
+      .then(entries => setQueue(getDueCards(entries)))
+      .catch(err => console.error("Error loading deck:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const card = queue[0];
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!card || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const entry = await recordReview(card, grade);
+      setIsRevealed(false);
+      setReviewedCount(c => c + 1);
+      // Failed cards go to the back of this session's queue instead of waiting for the next one.
+      // The other direction of this entry may still be queued with the schedule from before this review.
+      setQueue(prev => {
+        const rest = prev.filter(c => c !== card).map(c => c.entry.id === entry.id ? { ...c, entry } : c);
+        return grade < 3 ? [...rest, { entry, direction: card.direction }] : rest;
+      });
+      if (onDeckChanged) onDeckChanged();
+    } catch (err) {
+      console.error("Error saving review:", err);
+      setError("Couldn't save this review. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!card || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await removeFromDeck(card.entry.id);
+      setIsRevealed(false);
+      setQueue(prev => prev.filter(c => c.entry.id !== card.entry.id));
+      if (onDeckChanged) onDeckChanged();
+    } catch (err) {
+      console.error("Error removing word from deck:", err);
+      setError("Couldn't remove this word. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isEnglishFront = card?.direction === 'recognition';
+  const languageName = card ? getLanguage(card.entry.item.translation.lang).name : '';
+
+  return (
+    <div className="flex flex-col items-center min-h-[60vh] space-y-8 animate-in fade-in duration-700">
+      <div className="w-full max-w-xl flex items-center justify-between">
+        <h2 className="text-2xl font-black text-sky-400">Vocabulary Review</h2>
+        <button onClick={onClose} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white">Back to practice</button>
+      </div>
+
+      {isLoading && <div className="w-10 h-10 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>}
+
+      {!isLoading && !card && (
+        <div className="text-center py-16 space-y-3">
+          <p className="text-xl font-black">{reviewedCount ? 'All caught up!' : 'Nothing due right now'}</p>
+          <p className="text-slate-400 text-sm">{reviewedCount ? `You reviewed ${reviewedCount} cards.` : 'Look up words in a dialogue to grow your deck.'}</p>
+        </div>
+      )}
+
+      {card && (
+        <div className="w-full max-w-xl bg-slate-800/60 p-8 md:p-10 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-8">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] bg-slate-900 text-slate-400 px-2 py-1 rounded-lg font-black uppercase tracking-widest">
+              {isEnglishFront ? `English → ${languageName}` : `${languageName} → English`}
+            </span>
+            <span className="text-[10px] text-slate-500 font-black tracking-widest">{queue.length} left</span>
+          </div>
+
+          <div className="text-center space-y-4">
+            {isEnglishFront ? (
+              <>
+                <p className="text-4xl font-black text-sky-400">{card.entry.item.word}</p>
+                <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{card.entry.item.partOfSpeech}</p>
+              </>
+            ) : (
+              <p className="text-3xl font-bold text-sky-200 translation" {...translationAttrs(card.entry.item.translation.lang)}>{card.entry.item.translation.text}</p>
+            )}
+            {card.entry.context && (
+              <p className="text-slate-400 italic text-sm leading-relaxed">
+                "{isEnglishFront || isRevealed ? card.entry.context : card.entry.context.replace(new RegExp(card.entry.item.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), '_____')}"
+              </p>
+            )}
+          </div>
+
+          {isRevealed ? (
+            <div className="pt-6 border-t border-slate-700/40 text-center space-y-3">
+              {isEnglishFront ? (
+                <p className="text-2xl font-bold text-sky-200 translation" {...translationAttrs(card.entry.item.translation.lang)}>{card.entry.item.translation.text}</p>
+              ) : (
+                <p className="text-3xl font-black text-sky-400">{card.entry.item.word}</p>
+              )}
+              <p className="text-sm text-slate-300 leading-relaxed">{card.entry.item.englishMeaning}</p>
+            </div>
+          ) : (
+            <button onClick={() => setIsRevealed(true)} className="w-full bg-sky-500 hover:bg-sky-600 text-white py-3 rounded-2xl font-black transition-all active:scale-95">Show Answer</button>
+          )}
+
+          {isRevealed && (
+            <div className="grid grid-cols-4 gap-3">
+              {GRADES.map(({ grade, label, className }) => (
+                <button key={grade} onClick={() => handleGrade(grade)} disabled={isSaving} className={`py-3 rounded-2xl border text-xs font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-50 ${className}`}>{label}</button>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-red-300 text-xs font-bold text-center">{error}</p>}
+
+          <div className="text-center">
+            <button onClick={handleRemove} disabled={isSaving} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 disabled:opacity-50">Remove word from deck</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Scenario, TurnTiming } from '../types';
+import { VoicePlayerHandle } from './VoicePlayer';
+import { startRecording, Recording } from '../services/recorder';
+import { translationAttrs } from '../services/languages';
+
+interface RolePlayPanelProps {
+  scenario: Scenario;
+  speaker: string;
+  timings: TurnTiming[];
+  playerRef: React.RefObject<VoicePlayerHandle | null>;
+  // Index of the learner's next unanswered turn; dialogue.length once the conversation is over.
+  onPendingTurnChange?: (idx: number) => void;
+  onExit: () => void;
+}
+
+type Phase = 'ready' | 'listening' | 'prompt' | 'finished';
+
+export const RolePlayPanel: React.FC<RolePlayPanelProps> = ({ scenario, speaker, timings, playerRef, onPendingTurnChange, onExit }) => {
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [turnIdx, setTurnIdx] = useState(0);
+  const [showEnglish, setShowEnglish] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordings, setRecordings] = useState<Record<number, string>>({});
+  const [micError, setMicError] = useState<string | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+  const recordingsRef = useRef(recordings);
+  recordingsRef.current = recordings;
+
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stop();
+      Object.values(recordingsRef.current).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  useEffect(() => {
+    if (onPendingTurnChange) onPendingTurnChange(turnIdx);
+  }, [turnIdx]);
+
+  const findNextLearnerTurn = (from: number) => {
+    for (let i = from; i < scenario.dialogue.length; i++) {
+      if (scenario.dialogue[i].speaker === speaker) return i;
+    }
+    return scenario.dialogue.length;
+  };
+
+  // Plays the other speakers' lines from `fromTime` up to the learner's next turn.
+  const playUntilNextTurn = async (fromTurn: number, fromTime: number) => {
+    const next = findNextLearnerTurn(fromTurn);
+    const isLast = next === scenario.dialogue.length;
+    const stopAt = isLast ? Infinity : timings[next].start;
+    setTurnIdx(next);
+    setShowEnglish(false);
+    if (stopAt > fromTime && playerRef.current) {
+      setPhase('listening');
+      await playerRef.current.playRange(fromTime, stopAt);
+    }
+    setPhase(isLast ? 'finished' : 'prompt');
+  };
+
+  const handleStart = () => {
+    Object.values(recordings).forEach(url => URL.revokeObjectURL(url));
+    setRecordings({});
+    playUntilNextTurn(0, 0);
+  };
+
+  const handleContinue = () => {
+    playUntilNextTurn(turnIdx + 1, timings[turnIdx].end);
+  };
+
+  const toggleRecording = async () => {
+    setMicError(null);
+    if (isRecording && recordingRef.current) {
+      const blob = await recordingRef.current.stop();
+      recordingRef.current = null;
+      setIsRecording(false);
+      setRecordings(prev => {
+        if (prev[turnIdx]) URL.revokeObjectURL(prev[turnIdx]);
+        return { ...prev, [turnIdx]: URL.createObjectURL(blob) };
+      });
+      return;
+    }
+    try {
+      recordingRef.current = await startRecording();
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Microphone error:", err);
+      setMicError("Microphone access is needed to record your answer.");
+    }
+  };
+
+  const turn = phase === 'prompt' ? scenario.dialogue[turnIdx] : null;
+
+  return (
+    <div className="mt-6 p-6 bg-slate-900/60 rounded-[2rem] border border-amber-500/30 space-y-5">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-300">Role-play as {speaker}</p>
+        <button onClick={onExit} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Exit</button>
+      </div>
+
+      {phase === 'ready' && (
+        <button onClick={handleStart} className="w-full bg-amber-500 hover:bg-amber-600 text-white py-3 rounded-2xl font-black transition-all active:scale-95">Start Role-play</button>
+      )}
+
+      {phase === 'listening' && (
+        <p className="text-slate-400 text-sm font-bold animate-pulse">Listen to your partner...</p>
+      )}
+
+      {phase === 'prompt' && turn && (
+        <div className="space-y-4">
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">Your turn — say this in English:</p>
+          <p className="text-sky-100 text-lg leading-loose translation" {...translationAttrs(turn.translation.lang)}>{turn.translation.text}</p>
+          {showEnglish ? (
+            <p className="text-slate-300 italic">{turn.text}</p>
+          ) : (
+            <button onClick={() => setShowEnglish(true)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-sky-300">Show English hint</button>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={toggleRecording}
+              className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-slate-800 text-slate-200 border border-slate-700 hover:border-slate-500'}`}
+            >
+              {isRecording ? 'Stop Recording' : recordings[turnIdx] ? 'Record Again' : 'Record Answer'}
+            </button>
+            <button
+              onClick={() => playerRef.current?.playRange(timings[turnIdx].start, timings[turnIdx].end)}
+              disabled={isRecording}
+              className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-800 text-slate-200 border border-slate-700 hover:border-slate-500 disabled:opacity-50"
+            >
+              Play Model Line
+            </button>
+            <button
+              onClick={handleContinue}
+              disabled={isRecording}
+              className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-sky-500 hover:bg-sky-600 text-white disabled:opacity-50"
+            >
+              Continue
+            </button>
+          </div>
+
+          {recordings[turnIdx] && (
+            <div className="space-y-1">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Your recording</p>
+              <audio src={recordings[turnIdx]} controls className="w-full h-10" />
+            </div>
+          )}
+          {micError && <p className="text-red-300 text-sm font-bold">{micError}</p>}
+        </div>
+      )}
+
+      {phase === 'finished' && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-slate-300 font-bold">Conversation complete.</p>
+          <button onClick={handleStart} className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest bg-amber-500 hover:bg-amber-600 text-white">Go Again</button>
+        </div>
+      )}
+    </div>
+  );
+};
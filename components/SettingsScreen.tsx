@@ -0,0 +1,122 @@
+
+import React, { useState } from 'react';
+import { LearnerProfile, TopicDefinition, LanguageCode } from '../types';
+import { SENIORITIES, saveProfile } from '../services/profileService';
+import { TRANSLATION_LANGUAGES } from '../services/languages';
+import { TopicEditor } from './TopicEditor';
+import { CacheSettings } from './CacheSettings';
+
+interface SettingsScreenProps {
+  profile: LearnerProfile;
+  onProfileSaved: (profile: LearnerProfile) => void;
+  topics: TopicDefinition[];
+  onTopicsChanged: (topics: TopicDefinition[]) => void;
+  onClose: () => void;
+}
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ profile, onProfileSaved, topics, onTopicsChanged, onClose }) => {
+  const [draft, setDraft] = useState<LearnerProfile>(profile);
+  const [techStack, setTechStack] = useState(profile.techStack.join(', '));
+  const [weakAreas, setWeakAreas] = useState(profile.weakAreas.join(', '));
+  const [isSaved, setIsSaved] = useState(false);
+
+  const update = (changes: Partial<LearnerProfile>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveProfile({
+        ...draft,
+        jobTitle: draft.jobTitle.trim() || profile.jobTitle,
+        companyType: draft.companyType.trim(),
+        nativeLanguage: draft.nativeLanguage.trim(),
+        techStack: splitList(techStack),
+        weakAreas: splitList(weakAreas)
+      });
+      onProfileSaved(saved);
+      setIsSaved(true);
+    } catch (err) {
+      console.error("Error saving profile:", err);
+    }
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-500";
+  const inputClass = "w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="flex flex-col items-center min-h-[60vh] space-y-8 animate-in fade-in duration-700">
+      <div className="w-full max-w-xl flex items-center justify-between">
+        <h2 className="text-2xl font-black text-sky-400">Settings</h2>
+        <button onClick={onClose} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-white">Back to practice</button>
+      </div>
+
+      <div className="w-full max-w-xl bg-slate-800/60 p-8 md:p-10 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-6">
+        <div>
+          <h3 className="text-lg font-black">Learner Profile</h3>
+          <p className="text-slate-400 text-sm mt-1">Scenarios, definitions and quizzes are written for this person.</p>
+        </div>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Job title</span>
+          <input value={draft.jobTitle} onChange={(e) => update({ jobTitle: e.target.value })} placeholder="e.g. Data Engineer" className={inputClass} />
+        </label>
+
+        <div className="space-y-2">
+          <span className={labelClass}>Seniority</span>
+          <div className="flex flex-wrap bg-slate-900 p-1 rounded-xl border border-slate-700">
+            {SENIORITIES.map(level => (
+              <button key={level} onClick={() => update({ seniority: level })} className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${draft.seniority === level ? 'bg-sky-500 text-white shadow-md' : 'text-slate-400 hover:text-slate-200'}`}>{level}</button>
+            ))}
+          </div>
+        </div>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Tech stack</span>
+          <input value={techStack} onChange={(e) => { setTechStack(e.target.value); setIsSaved(false); }} placeholder="Comma separated, e.g. Python, Spark, AWS" className={inputClass} />
+        </label>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Target company type</span>
+          <input value={draft.companyType} onChange={(e) => update({ companyType: e.target.value })} placeholder="e.g. remote-first startup" className={inputClass} />
+        </label>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Native language</span>
+          <input value={draft.nativeLanguage} onChange={(e) => update({ nativeLanguage: e.target.value })} className={inputClass} />
+        </label>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Translate into</span>
+          <select
+            value={draft.translationLanguage}
+            onChange={(e) => update({ translationLanguage: e.target.value as LanguageCode })}
+            className={`${inputClass} cursor-pointer`}
+          >
+            {TRANSLATION_LANGUAGES.map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.name}</option>
+            ))}
+          </select>
+          <span className="block text-xs text-slate-500">Applies to new dialogues and word lookups; saved ones keep their language.</span>
+        </label>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Weak areas</span>
+          <input value={weakAreas} onChange={(e) => { setWeakAreas(e.target.value); setIsSaved(false); }} placeholder="Comma separated, e.g. phrasal verbs, small talk" className={inputClass} />
+        </label>
+
+        <div className="flex items-center justify-end gap-4">
+          {isSaved && <span className="text-[10px] font-black uppercase tracking-widest text-emerald-300">Saved</span>}
+          <button onClick={handleSave} className="bg-sky-500 hover:bg-sky-600 text-white px-6 py-2 rounded-xl font-bold transition-all active:scale-95">Save Profile</button>
+        </div>
+      </div>
+
+      <TopicEditor topics={topics} onTopicsChanged={onTopicsChanged} />
+
+      <CacheSettings />
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+
+import React, { useState } from 'react';
+import { TopicDefinition, TopicId, Duration } from '../types';
+import { saveTopic, deleteTopic } from '../services/topicService';
+import { MIN_PARTICIPANTS, MAX_PARTICIPANTS } from '../services/validation';
+
+interface TopicEditorProps {
+  topics: TopicDefinition[];
+  onTopicsChanged: (topics: TopicDefinition[]) => void;
+}
+
+const DURATIONS: Duration[] = ['1m', '3m', '5m'];
+
+const PARTICIPANT_COUNTS = Array.from({ length: MAX_PARTICIPANTS - MIN_PARTICIPANTS + 1 }, (_, i) => MIN_PARTICIPANTS + i);
+
+const EMPTY_DRAFT = { id: undefined as TopicId | undefined, name: '', instructions: '', roles: '', maxParticipants: MIN_PARTICIPANTS, defaultDuration: '1m' as Duration };
+
+export const TopicEditor: React.FC<TopicEditorProps> = ({ topics, onTopicsChanged }) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = (topic: TopicDefinition) => {
+    setDraft({ id: topic.id, name: topic.name, instructions: topic.instructions, roles: topic.roles.join(', '), maxParticipants: topic.maxParticipants, defaultDuration: topic.defaultDuration });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveTopic({
+        id: draft.id,
+        name: draft.name,
+        instructions: draft.instructions,
+        roles: draft.roles.split(','),
+        maxParticipants: draft.maxParticipants,
+        defaultDuration: draft.defaultDuration
+      });
+      onTopicsChanged([...topics.filter(t => t.id !== saved.id), saved]);
+      setDraft(EMPTY_DRAFT);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save that topic.");
+    }
+  };
+
+  const handleDelete = async (topic: TopicDefinition) => {
+    if (!confirm(`Delete the topic "${topic.name}"?`)) return;
+    try {
+      await deleteTopic(topic.id);
+      if (draft.id === topic.id) setDraft(EMPTY_DRAFT);
+      onTopicsChanged(topics.filter(t => t.id !== topic.id));
+    } catch (err) {
+      console.error("Error deleting topic:", err);
+    }
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-500";
+  const inputClass = "w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-sky-500";
+  const canSave = draft.name.trim() && draft.instructions.trim() && draft.roles.trim();
+
+  return (
+    <div className="w-full max-w-xl bg-slate-800/60 p-8 md:p-10 rounded-[3rem] border border-slate-700/50 shadow-2xl space-y-6">
+      <div>
+        <h3 className="text-lg font-black">Topics</h3>
+        <p className="text-slate-400 text-sm mt-1">Your own topics appear in the header next to the built-in ones.</p>
+      </div>
+
+      <ul className="space-y-2">
+        {topics.map(topic => (
+          <li key={topic.id} className="flex items-center justify-between gap-4 p-4 bg-slate-900/60 rounded-2xl border border-slate-700/40">
+            <div className="min-w-0">
+              <p className="font-bold text-slate-100 truncate">{topic.name}</p>
+              <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{topic.roles.join(' • ')} • up to {topic.maxParticipants} people • {topic.defaultDuration}</p>
+            </div>
+            {topic.isBuiltIn ? (
+              <span className="text-[9px] bg-slate-800 text-slate-500 px-2 py-1 rounded-lg font-black uppercase tracking-widest shrink-0">Built-in</span>
+            ) : (
+              <div className="flex gap-3 shrink-0 text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => startEdit(topic)} className="text-slate-400 hover:text-sky-300">Edit</button>
+                <button onClick={() => handleDelete(topic)} className="text-slate-400 hover:text-red-300">Delete</button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-4 pt-2 border-t border-slate-700/50">
+        <label className="block space-y-2 pt-4">
+          <span className={labelClass}>Name</span>
+          <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Salary negotiation" className={inputClass} />
+        </label>
+        <label className="block space-y-2">
+          <span className={labelClass}>Instructions</span>
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            rows={4}
+            placeholder="Describe the situation. You can use {jobTitle}, {seniority}, {companyType} and {techStack}."
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-2">
+          <span className={labelClass}>Participant roles</span>
+          <input value={draft.roles} onChange={(e) => setDraft({ ...draft, roles: e.target.value })} placeholder="Comma separated, e.g. recruiter, candidate" className={inputClass} />
+        </label>
+        <div className="space-y-2">
+          <span className={labelClass}>Up to how many people</span>
+          <div className="flex bg-slate-900 p-1 rounded-xl border border-slate-700 w-fit">
+            {PARTICIPANT_COUNTS.map(count => (
+              <button key={count} onClick={() => setDraft({ ...draft, maxParticipants: count })} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${draft.maxParticipants === count ? 'bg-sky-500 text-white shadow-md' : 'text-slate-400 hover:text-slate-200'}`}>{count}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex bg-slate-900 p-1 rounded-xl border border-slate-700">
+            {DURATIONS.map(dur => (
+              <button key={dur} onClick={() => setDraft({ ...draft, defaultDuration: dur })} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${draft.defaultDuration === dur ? 'bg-sky-500 text-white shadow-md' : 'text-slate-400 hover:text-slate-200'}`}>{dur}</button>
+            ))}
+          </div>
+          <div className="flex items-center gap-4">
+            {draft.id && (
+              <button onClick={() => setDraft(EMPTY_DRAFT)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Cancel</button>
+            )}
+            <button onClick={handleSave} disabled={!canSave} className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white px-6 py-2 rounded-xl font-bold transition-all active:scale-95">Save Topic</button>
+          </div>
+        </div>
+        {error && <p className="text-red-300 text-xs font-bold">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+
+import React, { useRef } from 'react';
+import { VocabularyItem } from '../types';
+import { PhraseSpan, cleanPhrase, MAX_PHRASE_WORDS } from '../services/phrases';
+
+interface TurnTextProps {
+  text: string;
+  // Detected idioms in this turn, and the definitions they refer to.
+  spans: PhraseSpan[];
+  idioms: VocabularyItem[];
+  className?: string;
+  onWordClick: (word: string) => void;
+  onPhraseSelect: (phrase: string) => void;
+  onIdiomClick: (item: VocabularyItem) => void;
+}
+
+const WORD_CLASS = "inline-block cursor-pointer hover:text-sky-300 transition-colors mr-1.5 hover:bg-white/15 px-0.5 rounded-sm";
+
+// A dialogue line whose words can be clicked one at a time, or dragged across
+// to look up a phrase. Detected idioms are underlined and clicked as a whole.
+export const TurnText: React.FC<TurnTextProps> = ({ text, spans, idioms, className, onWordClick, onPhraseSelect, onIdiomClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const words = text.split(' ');
+
+  const handleMouseUp = () => {
+    const container = containerRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.isCollapsed) return;
+    const wordIndexOf = (node: Node | null) => {
+      const element = node instanceof Element ? node : node?.parentElement;
+      const index = element?.closest<HTMLElement>('[data-word]')?.dataset.word;
+      return node && container.contains(node) && index !== undefined ? Number(index) : null;
+    };
+    const from = wordIndexOf(selection.anchorNode);
+    const to = wordIndexOf(selection.focusNode);
+    // A selection inside a single word is left to that word's click.
+    if (from === null || to === null || from === to) return;
+    const phrase = cleanPhrase(words.slice(Math.min(from, to), Math.max(from, to) + 1).join(' '));
+    if (!phrase || phrase.split(' ').length > MAX_PHRASE_WORDS) return;
+    selection.removeAllRanges();
+    onPhraseSelect(phrase);
+  };
+
+  const parts: React.ReactNode[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const span = spans.find(s => s.start === i);
+    const idiom = span && idioms.find(item => item.word === span.phrase);
+    if (span && idiom) {
+      parts.push(
+        <span
+          key={i}
+          onClick={() => onIdiomClick(idiom)}
+          title={`${idiom.englishMeaning}${idiom.register ? ` (${idiom.register})` : ''}`}
+          className="cursor-pointer underline decoration-dotted decoration-sky-400/80 decoration-2 underline-offset-[6px] hover:text-sky-300 transition-colors"
+        >
+          {words.slice(span.start, span.end + 1).map((word, j) => (
+            <span key={j} data-word={span.start + j} className="inline-block mr-1.5 px-0.5">{word}</span>
+          ))}
+        </span>
+      );
+      i = span.end;
+    } else {
+      parts.push(
+        <span key={i} data-word={i} onClick={() => onWordClick(words[i])} className={WORD_CLASS}>
+          {words[i]}
+        </span>
+      );
+    }
+  }
+
+  return (
+    <div ref={containerRef} onMouseUp={handleMouseUp} className={className}>
+      {parts}
+    </div>
+  );
+};
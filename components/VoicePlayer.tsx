@@ -1,32 +1,130 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { decodeBase64, decodeAudioData } from '../services/geminiService';
+import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { decodeBase64 } from '../services/geminiService';
+import { PCM_SAMPLE_RATE, pcm16ToFloat32 } from '../services/audio';
+import { AudioStream } from '../services/audioStream';
+import { TurnTiming } from '../types';
+import { computePeaksInWorker } from '../services/waveform';
+import { loadTimeStretchWorklet, TIME_STRETCH_PROCESSOR, TimeStretchCommand, TimeStretchEvent, MIN_SPEED, MAX_SPEED } from '../services/timeStretch';
+
+export interface PlayerTurn extends TurnTiming {
+  speaker: string;
+  text: string;
+  // CSS colour for this speaker's stretch of the waveform.
+  color: string;
+}
 
 interface VoicePlayerProps {
   base64Audio: string | null;
+  // Audio still being synthesized. While set it is played instead of
+  // `base64Audio`, which can then be filled in without interrupting playback.
+  audioStream?: AudioStream | null;
   onProgressUpdate?: (progress: number) => void;
-  onRefreshSlowMode: () => void;
-  isSlowMode: boolean;
+  onTimeUpdate?: (seconds: number) => void;
+  // Turn boundaries from the scenario's dialogue, used for navigation, sentence repeat and auto-pause.
+  turns?: PlayerTurn[];
+  title?: string;
+  // Region dragged out on the waveform, or null once it is cleared.
+  onSelectionChange?: (selection: TurnTiming | null) => void;
+}
+
+export interface VoicePlayerHandle {
+  seekTo: (seconds: number) => void;
+  // Plays [start, end) and then pauses, e.g. to replay a single sentence.
+  // Resolves once playback stops, whether it reached `end` or was interrupted.
+  playRange: (start: number, end: number) => Promise<void>;
+  setSpeed: (speed: number) => void;
+  getSpeed: () => number;
+}
+
+const SLOW_SPEED = 0.75;
+
+// Browsers throw for Media Session actions they don't support; those are skipped.
+const setMediaAction = (session: MediaSession, action: MediaSessionAction, handler: MediaSessionActionHandler | null): boolean => {
+  try {
+    session.setActionHandler(action, handler);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// How many times a loop plays in total; 0 loops until it is cleared.
+const REPEAT_OPTIONS = [2, 3, 5, 0];
+
+// Going back within this many seconds of a turn's start goes to the previous turn.
+const RESTART_TURN_WINDOW = 1;
+
+interface LoopRange {
+  start: number;
+  // Null until the B point is set.
+  end: number | null;
+  repeats: number;
+  pass: number;
 }
 
-export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgressUpdate, onRefreshSlowMode, isSlowMode }) => {
+const WAVEFORM_BUCKETS = 800;
+const WAVEFORM_HEIGHT = 64;
+const GAP_COLOR = '#334155';
+
+// Pointer travel, in pixels, below which a press on the waveform counts as a click.
+const DRAG_THRESHOLD = 4;
+
+const findTurnIndex = (turns: TurnTiming[], position: number) => {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (position >= turns[i].start) return i;
+  }
+  return turns.length ? 0 : -1;
+};
+
+// Audio is time-stretched in an AudioWorklet, so every position here is in
+// seconds of the original recording regardless of the playback speed.
+export const VoicePlayer = forwardRef<VoicePlayerHandle, VoicePlayerProps>(({ base64Audio, audioStream, onProgressUpdate, onTimeUpdate, turns, title, onSelectionChange }, ref) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [currentTimeDisplay, setCurrentTimeDisplay] = useState('0:00');
-  const [durationDisplay, setDurationDisplay] = useState('0:00');
+  const [duration, setDuration] = useState(0);
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const [repeatCount, setRepeatCount] = useState(3);
+  const [autoPause, setAutoPause] = useState(false);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [selection, setSelection] = useState<TurnTiming | null>(null);
+  const [hover, setHover] = useState<{ percent: number; turn: PlayerTurn | null } | null>(null);
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
+  const stretchNodeRef = useRef<AudioWorkletNode | null>(null);
+  const durationRef = useRef<number | null>(null);
+  const loadingRef = useRef<Promise<void> | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   
-  const startTimeRef = useRef<number>(0);
+  // Last position reported by the worklet and the context time it arrived at.
+  const reportedRef = useRef({ position: 0, at: 0 });
+  const speedRef = useRef(1);
+  const sessionRef = useRef(0);
   const offsetRef = useRef<number>(0);
   const animationFrameRef = useRef<number>();
+  const isPlayingRef = useRef(false);
+  const stopAtRef = useRef<number | null>(null);
+  const rangeResolveRef = useRef<(() => void) | null>(null);
+  // Read from the progress loop, which outlives the render that started it.
+  const loopRef = useRef<LoopRange | null>(null);
+  const autoPauseRef = useRef(false);
+  const turnsRef = useRef(turns);
+  const lastPositionRef = useRef(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; time: number } | null>(null);
+  // Bumped whenever the source changes, so loads started for an earlier source are dropped.
+  const loadIdRef = useRef(0);
+  const sourceRef = useRef({ audioStream, base64Audio });
+  turnsRef.current = turns;
+  sourceRef.current = { audioStream, base64Audio };
+  const audioSource = audioStream || base64Audio;
 
   useEffect(() => {
     return () => {
       stopAudio(true);
+      stretchNodeRef.current?.disconnect();
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
@@ -34,12 +132,21 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgres
   }, []);
 
   useEffect(() => {
+    loadIdRef.current += 1;
     stopAudio(true);
-    audioBufferRef.current = null;
-    if (base64Audio) {
+    durationRef.current = null;
+    loadingRef.current = null;
+    updateLoop(null);
+    setPeaks(null);
+    updateSelection(null);
+    if (audioSource) {
       loadAudio();
     }
-  }, [base64Audio]);
+    return () => {
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = null;
+    };
+  }, [audioSource]);
 
   const formatTime = (seconds: number) => {
     if (isNaN(seconds)) return '0:00';
@@ -48,99 +155,244 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgres
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const loadAudio = async () => {
-    if (!base64Audio) return;
-    try {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      }
-      const bytes = decodeBase64(base64Audio);
-      const buffer = await decodeAudioData(bytes, audioContextRef.current);
-      audioBufferRef.current = buffer;
-      setDurationDisplay(formatTime(buffer.duration));
-    } catch (err) {
-      console.error("Error loading audio:", err);
+  const post = (command: TimeStretchCommand, transfer: Transferable[] = []) => {
+    stretchNodeRef.current?.port.postMessage(command, transfer);
+  };
+
+  const getStretchNode = async (ctx: AudioContext) => {
+    if (!stretchNodeRef.current) {
+      await loadTimeStretchWorklet(ctx);
+      const node = new AudioWorkletNode(ctx, TIME_STRETCH_PROCESSOR, { numberOfInputs: 0, outputChannelCount: [1] });
+      node.port.onmessage = (e: MessageEvent<TimeStretchEvent>) => handleStretchEvent(e.data);
+      node.connect(ctx.destination);
+      stretchNodeRef.current = node;
     }
+    return stretchNodeRef.current;
   };
 
-  const stopAudio = (resetOffset = true) => {
-    if (sourceNodeRef.current) {
-      try { sourceNodeRef.current.stop(); } catch(e) {}
-      sourceNodeRef.current = null;
+  const setLoadedDuration = (seconds: number) => {
+    durationRef.current = seconds;
+    setDuration(seconds);
+  };
+
+  // `samples` is handed to the worker and must not be used afterwards.
+  const showWaveform = (samples: Float32Array, loading: Promise<void>) => {
+    computePeaksInWorker(samples, WAVEFORM_BUCKETS)
+      .then(result => {
+        if (loadingRef.current === loading) setPeaks(result);
+      })
+      .catch(err => console.error("Error computing waveform:", err));
+  };
+
+  // Streamed audio can be played straight away; the worklet waits whenever
+  // playback catches up with synthesis.
+  const loadStream = (stream: AudioStream, loading: Promise<void>) => {
+    const received: Float32Array[] = [];
+    let total = 0;
+    post({ type: 'load', samples: new Float32Array(0), sampleRate: PCM_SAMPLE_RATE, complete: false });
+    setLoadedDuration(0);
+    unsubscribeRef.current = stream.subscribe(chunk => {
+      const samples = pcm16ToFloat32(chunk);
+      const copy = samples.slice();
+      received.push(samples);
+      total += samples.length;
+      post({ type: 'append', samples: copy, complete: false }, [copy.buffer]);
+      setLoadedDuration(total / PCM_SAMPLE_RATE);
+    }, () => {
+      post({ type: 'append', samples: new Float32Array(0), complete: true });
+      const all = new Float32Array(total);
+      let offset = 0;
+      received.forEach(samples => {
+        all.set(samples, offset);
+        offset += samples.length;
+      });
+      showWaveform(all, loading);
+    });
+  };
+
+  const loadAudio = () => {
+    if (!loadingRef.current) {
+      const loadId = loadIdRef.current;
+      const { audioStream, base64Audio } = sourceRef.current;
+      const loading: Promise<void> = (async () => {
+        if (!audioStream && !base64Audio) return;
+        try {
+          if (!audioContextRef.current) {
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PCM_SAMPLE_RATE });
+          }
+          await getStretchNode(audioContextRef.current);
+          if (loadingRef.current !== loading || loadIdRef.current !== loadId) return;
+          if (audioStream) {
+            loadStream(audioStream, loading);
+            return;
+          }
+          if (!base64Audio) return;
+          const samples = pcm16ToFloat32(decodeBase64(base64Audio));
+          const copy = samples.slice();
+          post({ type: 'load', samples: copy, sampleRate: PCM_SAMPLE_RATE, complete: true }, [copy.buffer]);
+          setLoadedDuration(samples.length / PCM_SAMPLE_RATE);
+          showWaveform(samples, loading);
+        } catch (err) {
+          console.error("Error loading audio:", err);
+        }
+      })();
+      loadingRef.current = loading;
+    }
+    return loadingRef.current;
+  };
+
+  const settleRange = () => {
+    stopAtRef.current = null;
+    if (rangeResolveRef.current) {
+      const resolve = rangeResolveRef.current;
+      rangeResolveRef.current = null;
+      resolve();
     }
+  };
+
+  const stopAudio = (resetOffset = true) => {
+    post({ type: 'pause' });
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
+    isPlayingRef.current = false;
+    settleRange();
     setIsPlaying(false);
     if (resetOffset) {
       setProgress(0);
       offsetRef.current = 0;
       setCurrentTimeDisplay('0:00');
       if (onProgressUpdate) onProgressUpdate(0);
+      if (onTimeUpdate) onTimeUpdate(0);
     }
   };
 
-  const playFromOffset = async (startOffset: number) => {
-    if (!base64Audio) return;
-    
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  // Extrapolates between the worklet's position reports.
+  const getCurrentPosition = () => {
+    if (!isPlayingRef.current || !audioContextRef.current) return offsetRef.current;
+    const { position, at } = reportedRef.current;
+    const current = position + (audioContextRef.current.currentTime - at) * speedRef.current;
+    return Math.min(current, durationRef.current || 0);
+  };
+
+  const setPausedPosition = (position: number) => {
+    const duration = durationRef.current || 0;
+    const prog = duration ? (position / duration) * 100 : 0;
+    offsetRef.current = position;
+    setProgress(prog);
+    setCurrentTimeDisplay(formatTime(position));
+    if (onProgressUpdate) onProgressUpdate(prog);
+    if (onTimeUpdate) onTimeUpdate(position);
+  };
+
+  const updateLoop = (next: LoopRange | null) => {
+    loopRef.current = next;
+    setLoop(next);
+  };
+
+  const pauseAt = (position: number) => {
+    stopAudio(false);
+    setPausedPosition(position);
+  };
+
+  // Called as playback moves from `previous` to `current`; returns true if it
+  // took over playback by looping back or pausing.
+  const handleBoundaries = (previous: number, current: number) => {
+    const activeLoop = loopRef.current;
+    if (activeLoop && activeLoop.end !== null) {
+      if (previous >= activeLoop.end || current < activeLoop.end) return false;
+      const pass = activeLoop.pass + 1;
+      if (activeLoop.repeats === 0 || pass < activeLoop.repeats) {
+        updateLoop({ ...activeLoop, pass });
+        playFromOffset(activeLoop.start);
+        return true;
+      }
+      updateLoop(null);
+      if (!autoPauseRef.current) return false;
+      pauseAt(activeLoop.end);
+      return true;
     }
-    if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
+    if (!autoPauseRef.current) return false;
+    const finished = turnsRef.current?.find(turn => previous < turn.end && current >= turn.end);
+    if (!finished) return false;
+    pauseAt(finished.end);
+    return true;
+  };
+
+  const handleStretchEvent = (event: TimeStretchEvent) => {
+    if (!isPlayingRef.current || !audioContextRef.current || event.session !== sessionRef.current) return;
+    if (event.type === 'position') {
+      reportedRef.current = { position: event.position, at: audioContextRef.current.currentTime };
+    } else if (event.type === 'ended') {
+      const duration = durationRef.current || 0;
+      if (stopAtRef.current === null && handleBoundaries(lastPositionRef.current, duration)) return;
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      isPlayingRef.current = false;
+      setIsPlaying(false);
+      setPausedPosition(duration);
+      settleRange();
+    }
+  };
+
+  const changeSpeed = (speed: number) => {
+    const clamped = Math.max(MIN_SPEED, Math.min(speed, MAX_SPEED));
+    // Re-anchor the extrapolation so the position doesn't jump with the rate.
+    if (isPlayingRef.current && audioContextRef.current) {
+      reportedRef.current = { position: getCurrentPosition(), at: audioContextRef.current.currentTime };
     }
+    speedRef.current = clamped;
+    setPlaybackSpeed(clamped);
+    post({ type: 'speed', speed: clamped });
+  };
+
+  const playFromOffset = async (startOffset: number) => {
+    if (!audioSource) return;
 
     try {
-      if (!audioBufferRef.current) {
-        await loadAudio();
+      const loadId = loadIdRef.current;
+      await loadAudio();
+      const ctx = audioContextRef.current;
+      const duration = durationRef.current;
+      if (!ctx || duration === null || loadIdRef.current !== loadId) return;
+      if (ctx.state === 'suspended') {
+        await ctx.resume();
+        if (loadIdRef.current !== loadId) return;
       }
 
-      const buffer = audioBufferRef.current;
-      if (!buffer) return;
-
-      const duration = buffer.duration;
       const clampedOffset = Math.max(0, Math.min(startOffset, duration));
       offsetRef.current = clampedOffset;
+      reportedRef.current = { position: clampedOffset, at: ctx.currentTime };
+      lastPositionRef.current = clampedOffset;
+      sessionRef.current += 1;
+      post({ type: 'play', position: clampedOffset, speed: speedRef.current, session: sessionRef.current });
+      isPlayingRef.current = true;
+      setIsPlaying(true);
 
-      if (sourceNodeRef.current) {
-        try { sourceNodeRef.current.stop(); } catch(e) {}
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
       }
+      const updateProgress = () => {
+        if (!isPlayingRef.current) return;
+        const currentPos = getCurrentPosition();
 
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = buffer;
-      source.playbackRate.value = playbackSpeed;
-      source.connect(audioContextRef.current.destination);
-      
-      source.onended = () => {
-        if (!audioContextRef.current) return;
-        const now = audioContextRef.current.currentTime;
-        const currentPos = offsetRef.current + (now - startTimeRef.current) * playbackSpeed;
-        if (currentPos >= duration - 0.2) {
-          setIsPlaying(false);
-          setProgress(100);
-          setCurrentTimeDisplay(formatTime(duration));
-          if (onProgressUpdate) onProgressUpdate(100);
+        if (stopAtRef.current !== null && currentPos >= stopAtRef.current) {
+          pauseAt(stopAtRef.current);
+          return;
         }
-      };
+        // Loops and auto-pause stay out of the way of playRange callers.
+        if (stopAtRef.current === null && handleBoundaries(lastPositionRef.current, currentPos)) return;
+        lastPositionRef.current = currentPos;
 
-      startTimeRef.current = audioContextRef.current.currentTime;
-      source.start(0, clampedOffset);
-      sourceNodeRef.current = source;
-      setIsPlaying(true);
-
-      const updateProgress = () => {
-        if (!audioContextRef.current || !isPlaying) return;
-        const now = audioContextRef.current.currentTime;
-        const currentPos = offsetRef.current + (now - startTimeRef.current) * playbackSpeed;
-        const newProgress = Math.min((currentPos / duration) * 100, 100);
+        // Streamed audio keeps growing, so read the latest duration every frame.
+        const total = durationRef.current || 0;
+        const newProgress = total ? Math.min((currentPos / total) * 100, 100) : 0;
         
         setProgress(newProgress);
-        setCurrentTimeDisplay(formatTime(Math.min(currentPos, duration)));
+        setCurrentTimeDisplay(formatTime(currentPos));
         if (onProgressUpdate) onProgressUpdate(newProgress);
+        if (onTimeUpdate) onTimeUpdate(currentPos);
         
-        if (newProgress < 100) {
-          animationFrameRef.current = requestAnimationFrame(updateProgress);
-        }
+        animationFrameRef.current = requestAnimationFrame(updateProgress);
       };
       animationFrameRef.current = requestAnimationFrame(updateProgress);
     } catch (err) {
@@ -150,57 +402,209 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgres
 
   const handleTogglePlay = () => {
     if (isPlaying) {
-      const now = audioContextRef.current!.currentTime;
-      offsetRef.current += (now - startTimeRef.current) * playbackSpeed;
+      offsetRef.current = getCurrentPosition();
       stopAudio(false);
     } else {
+      settleRange();
       playFromOffset(offsetRef.current);
     }
   };
 
-  const handleSkip = (seconds: number) => {
-    if (!audioBufferRef.current) return;
-    let currentPos = offsetRef.current;
-    if (isPlaying) {
-      const now = audioContextRef.current!.currentTime;
-      currentPos += (now - startTimeRef.current) * playbackSpeed;
-    }
-    const newPos = Math.max(0, Math.min(currentPos + seconds, audioBufferRef.current.duration));
-    
-    if (isPlaying) {
+  const seekTo = (seconds: number) => {
+    if (durationRef.current === null) return;
+    const newPos = Math.max(0, Math.min(seconds, durationRef.current));
+    settleRange();
+    if (isPlayingRef.current) {
       playFromOffset(newPos);
     } else {
-      offsetRef.current = newPos;
-      const prog = (newPos / audioBufferRef.current.duration) * 100;
-      setProgress(prog);
-      setCurrentTimeDisplay(formatTime(newPos));
-      if (onProgressUpdate) onProgressUpdate(prog);
+      setPausedPosition(newPos);
+    }
+  };
+
+  const handleSkip = (seconds: number) => {
+    seekTo(getCurrentPosition() + seconds);
+  };
+
+  const jumpToTurn = (direction: -1 | 1) => {
+    if (!turns?.length) return;
+    const position = getCurrentPosition();
+    const idx = findTurnIndex(turns, position);
+    const restartCurrent = direction < 0 && position - turns[idx].start > RESTART_TURN_WINDOW;
+    const target = restartCurrent ? idx : Math.max(0, Math.min(idx + direction, turns.length - 1));
+    seekTo(turns[target].start);
+  };
+
+  const setLoopPoint = (point: 'start' | 'end') => {
+    if (durationRef.current === null) return;
+    const position = getCurrentPosition();
+    if (point === 'start') {
+      const end = loop?.end != null && loop.end > position ? loop.end : null;
+      updateLoop({ start: position, end, repeats: repeatCount, pass: 0 });
+    } else if (loop && position > loop.start) {
+      updateLoop({ ...loop, end: position, pass: 0 });
+    }
+  };
+
+  const toggleSentenceLoop = () => {
+    if (loop) {
+      updateLoop(null);
+      return;
     }
+    if (!turns?.length) return;
+    const turn = turns[findTurnIndex(turns, getCurrentPosition())];
+    updateLoop({ start: turn.start, end: turn.end, repeats: repeatCount, pass: 0 });
+    playFromOffset(turn.start);
   };
 
-  const handleProgressBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!audioBufferRef.current) return;
+  const changeRepeatCount = (count: number) => {
+    setRepeatCount(count);
+    if (loop) updateLoop({ ...loop, repeats: count, pass: 0 });
+  };
+
+  const toggleAutoPause = () => {
+    autoPauseRef.current = !autoPause;
+    setAutoPause(!autoPause);
+  };
+
+  // Keyboard and media-session handlers are registered once and call whatever
+  // the latest render's handlers are.
+  const commandsRef = useRef({ handleTogglePlay, handleSkip, jumpToTurn, setLoopPoint, toggleSentenceLoop });
+  commandsRef.current = { handleTogglePlay, handleSkip, jumpToTurn, setLoopPoint, toggleSentenceLoop };
+
+  useEffect(() => {
+    if (!audioSource) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.metaKey || e.ctrlKey || e.altKey || target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const commands = commandsRef.current;
+      switch (e.key) {
+        case ' ':
+          // A focused button already handles Space itself.
+          if (target.closest('button')) return;
+          commands.handleTogglePlay();
+          break;
+        case 'ArrowLeft': commands.jumpToTurn(-1); break;
+        case 'ArrowRight': commands.jumpToTurn(1); break;
+        case 'a': case 'A': commands.setLoopPoint('start'); break;
+        case 'b': case 'B': commands.setLoopPoint('end'); break;
+        case 'l': case 'L': commands.toggleSentenceLoop(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [audioSource]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !audioSource) return;
+    const session = navigator.mediaSession;
+    session.metadata = new MediaMetadata({ title: title || 'Listening practice', artist: 'Frontend Career English Hub' });
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => { if (!isPlayingRef.current) commandsRef.current.handleTogglePlay(); }],
+      ['pause', () => { if (isPlayingRef.current) commandsRef.current.handleTogglePlay(); }],
+      ['previoustrack', () => commandsRef.current.jumpToTurn(-1)],
+      ['nexttrack', () => commandsRef.current.jumpToTurn(1)],
+      ['seekbackward', () => commandsRef.current.handleSkip(-10)],
+      ['seekforward', () => commandsRef.current.handleSkip(10)]
+    ];
+    const registered = handlers.filter(([action, handler]) => setMediaAction(session, action, handler));
+    return () => {
+      registered.forEach(([action]) => setMediaAction(session, action, null));
+      session.metadata = null;
+    };
+  }, [audioSource, title]);
+
+  useEffect(() => {
+    if ('mediaSession' in navigator) {
+      navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+    }
+  }, [isPlaying]);
+
+  const updateSelection = (next: TurnTiming | null) => {
+    setSelection(next);
+    if (onSelectionChange) onSelectionChange(next);
+  };
+
+  const loopSelection = () => {
+    if (!selection) return;
+    updateLoop({ ...selection, repeats: repeatCount, pass: 0 });
+    playFromOffset(selection.start);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !peaks) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const mid = canvas.height / 2;
+    for (let i = 0; i < peaks.length; i++) {
+      const time = ((i + 0.5) / peaks.length) * duration;
+      const turn = turns?.find(t => time >= t.start && time < t.end);
+      const height = Math.max(1, peaks[i] * canvas.height * 0.9);
+      ctx.fillStyle = turn ? turn.color : GAP_COLOR;
+      ctx.fillRect(i, mid - height / 2, 1, height);
+    }
+  }, [peaks, turns, duration]);
+
+  const pointerPosition = (e: React.PointerEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const clickedProgress = Math.max(0, Math.min(x / rect.width, 1));
-    const newOffset = clickedProgress * audioBufferRef.current.duration;
-    
-    if (isPlaying) {
-      playFromOffset(newOffset);
-    } else {
-      offsetRef.current = newOffset;
-      setProgress(clickedProgress * 100);
-      setCurrentTimeDisplay(formatTime(newOffset));
-      if (onProgressUpdate) onProgressUpdate(clickedProgress * 100);
+    const ratio = Math.max(0, Math.min((e.clientX - rect.left) / rect.width, 1));
+    return { x: e.clientX, ratio, time: ratio * (durationRef.current || 0) };
+  };
+
+  const handleWaveformPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (durationRef.current === null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, time } = pointerPosition(e);
+    dragRef.current = { x, time };
+  };
+
+  const handleWaveformPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const { x, ratio, time } = pointerPosition(e);
+    setHover({ percent: ratio * 100, turn: turns?.find(t => time >= t.start && time < t.end) || null });
+    const drag = dragRef.current;
+    if (drag && Math.abs(x - drag.x) >= DRAG_THRESHOLD) {
+      setSelection({ start: Math.min(drag.time, time), end: Math.max(drag.time, time) });
+    }
+  };
+
+  const handleWaveformPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    const { x, time } = pointerPosition(e);
+    if (Math.abs(x - drag.x) < DRAG_THRESHOLD) {
+      seekTo(time);
+      return;
     }
+    updateSelection({ start: Math.min(drag.time, time), end: Math.max(drag.time, time) });
   };
 
+  useImperativeHandle(ref, () => ({
+    seekTo,
+    playRange: (start: number, end: number) => {
+      settleRange();
+      return new Promise<void>(resolve => {
+        rangeResolveRef.current = resolve;
+        stopAtRef.current = end;
+        playFromOffset(start);
+      });
+    },
+    setSpeed: changeSpeed,
+    getSpeed: () => speedRef.current
+  }));
+
+  const isSlowMode = playbackSpeed < 1;
+  const toPercent = (seconds: number) => (duration ? (seconds / duration) * 100 : 0);
+  const toolButtonClass = (active: boolean) => `px-3 py-1.5 rounded-lg transition-all disabled:opacity-40 ${active ? 'bg-amber-500 text-white shadow-md' : 'text-slate-400 hover:text-slate-200'}`;
+
   return (
     <div className="flex flex-col gap-5 p-7 bg-slate-900/60 rounded-[2.5rem] border border-slate-700/50 shadow-2xl backdrop-blur-sm">
       <div className="flex flex-wrap items-center justify-between gap-6">
         <div className="flex items-center gap-3">
            <button 
-             onClick={onRefreshSlowMode}
+             onClick={() => changeSpeed(isSlowMode ? 1 : SLOW_SPEED)}
              className={`flex items-center gap-2 px-5 py-2 rounded-full text-[10px] font-black tracking-widest transition-all border shadow-lg uppercase ${
                isSlowMode 
                ? 'bg-amber-500 text-white border-amber-400 shadow-amber-500/20' 
@@ -210,7 +614,7 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgres
              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
                <path fillRule="evenodd" d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" clipRule="evenodd" />
              </svg>
-             {isSlowMode ? 'LITE MODE ENABLED' : 'ENABLE LITE VOICES'}
+             {isSlowMode ? 'SLOW MODE ON' : 'ENABLE SLOW MODE'}
            </button>
         </div>
 
@@ -228,7 +632,7 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgres
            <button 
              onClick={handleTogglePlay} 
              className={`${isPlaying ? 'bg-red-500 hover:bg-red-600 shadow-red-500/20' : 'bg-sky-500 hover:bg-sky-600 shadow-sky-500/20'} text-white p-5 rounded-full transition-all shadow-2xl active:scale-90 disabled:opacity-50`} 
-             disabled={!base64Audio}
+             disabled={!audioSource}
            >
             {isPlaying ? (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
@@ -250,35 +654,107 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({ base64Audio, onProgres
 
         <div className="flex items-center gap-2 bg-slate-800 px-4 py-2 rounded-2xl border border-slate-700">
           <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Speed</span>
-          <select 
-            value={playbackSpeed} 
-            onChange={(e) => setPlaybackSpeed(parseFloat(e.target.value))}
-            className="bg-transparent text-xs font-black text-sky-400 focus:outline-none cursor-pointer"
-          >
-            <option value="0.5">0.5x</option>
-            <option value="0.8">0.8x</option>
-            <option value="1">1.0x</option>
-            <option value="1.2">1.2x</option>
-          </select>
+          <input
+            type="range"
+            min={MIN_SPEED}
+            max={MAX_SPEED}
+            step={0.05}
+            value={playbackSpeed}
+            onChange={(e) => changeSpeed(parseFloat(e.target.value))}
+            className="w-24 accent-sky-400 cursor-pointer"
+          />
+          <span className="text-xs font-black text-sky-400 tabular-nums w-10 text-right">{playbackSpeed.toFixed(2)}x</span>
         </div>
       </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+        <div className="flex bg-slate-800 p-1 rounded-xl border border-slate-700">
+          <button onClick={() => setLoopPoint('start')} disabled={!audioSource} className={toolButtonClass(!!loop)} title="Set loop start (A)">A</button>
+          <button onClick={() => setLoopPoint('end')} disabled={!loop} className={toolButtonClass(loop?.end != null)} title="Set loop end (B)">B</button>
+        </div>
+        <button onClick={toggleSentenceLoop} disabled={!turns?.length} className={`bg-slate-800 border border-slate-700 rounded-xl ${toolButtonClass(!!loop)}`} title="Repeat the current sentence (L)">
+          {loop ? 'Stop loop' : 'Repeat sentence'}
+        </button>
+        <div className="flex items-center bg-slate-800 p-1 rounded-xl border border-slate-700">
+          <span className="px-2 text-slate-500">Times</span>
+          {REPEAT_OPTIONS.map(count => (
+            <button key={count} onClick={() => changeRepeatCount(count)} className={`px-2.5 py-1 rounded-lg transition-all ${repeatCount === count ? 'bg-sky-500 text-white shadow-md' : 'text-slate-400 hover:text-slate-200'}`}>
+              {count === 0 ? '∞' : count}
+            </button>
+          ))}
+        </div>
+        <button onClick={toggleAutoPause} disabled={!turns?.length} className={`bg-slate-800 border border-slate-700 rounded-xl ${toolButtonClass(autoPause)}`} title="Pause at the end of every turn">
+          Pause after each turn
+        </button>
+        {loop && (
+          <span className="text-amber-300 tabular-nums">
+            {formatTime(loop.start)}–{loop.end !== null ? formatTime(loop.end) : '?'}
+            {loop.end !== null && ` • ${loop.pass + 1}/${loop.repeats || '∞'}`}
+          </span>
+        )}
+      </div>
       
       <div className="space-y-2 mt-2">
-        <div 
-          className="relative w-full h-3.5 bg-slate-950 rounded-full cursor-pointer overflow-hidden group shadow-inner border border-white/5"
-          onClick={handleProgressBarClick}
-        >
-          <div 
-            className="absolute top-0 left-0 h-full bg-sky-500 transition-all duration-100 ease-linear shadow-[0_0_15px_rgba(14,165,233,0.5)]" 
-            style={{ width: `${progress}%` }}
-          ></div>
-          <div className="absolute top-0 left-0 h-full w-full opacity-0 group-hover:opacity-10 bg-white transition-opacity"></div>
+        <div className="relative">
+          <div
+            className="relative w-full bg-slate-950 rounded-2xl cursor-pointer overflow-hidden shadow-inner border border-white/5 select-none touch-none"
+            style={{ height: WAVEFORM_HEIGHT }}
+            onPointerDown={handleWaveformPointerDown}
+            onPointerMove={handleWaveformPointerMove}
+            onPointerUp={handleWaveformPointerUp}
+            onPointerLeave={() => setHover(null)}
+          >
+            {peaks ? (
+              <>
+                <canvas ref={canvasRef} width={peaks.length} height={WAVEFORM_HEIGHT} className="absolute inset-0 w-full h-full" />
+                <div className="absolute top-0 right-0 h-full bg-slate-950/60" style={{ left: `${progress}%` }}></div>
+              </>
+            ) : (
+              <div 
+                className="absolute top-0 left-0 h-full bg-sky-500/60 transition-all duration-100 ease-linear" 
+                style={{ width: `${progress}%` }}
+              ></div>
+            )}
+            {turns?.map((turn, idx) => (
+              <div key={idx} className="absolute top-0 h-full w-px bg-white/25" style={{ left: `${toPercent(turn.start)}%` }}></div>
+            ))}
+            {loop && (
+              <div
+                className="absolute top-0 h-full bg-amber-400/25 border-x border-amber-300"
+                style={{ left: `${toPercent(loop.start)}%`, width: `${loop.end !== null ? toPercent(loop.end - loop.start) : 0}%` }}
+              ></div>
+            )}
+            {selection && (
+              <div
+                className="absolute top-0 h-full bg-sky-400/25 border-x border-sky-300"
+                style={{ left: `${toPercent(selection.start)}%`, width: `${toPercent(selection.end - selection.start)}%` }}
+              ></div>
+            )}
+            <div className="absolute top-0 h-full w-0.5 bg-sky-300 shadow-[0_0_10px_rgba(14,165,233,0.8)]" style={{ left: `${progress}%` }}></div>
+          </div>
+          {hover?.turn && (
+            <div
+              className="absolute bottom-full mb-2 -translate-x-1/2 w-64 max-w-[80vw] pointer-events-none z-20 bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 shadow-2xl"
+              style={{ left: `${Math.max(15, Math.min(hover.percent, 85))}%` }}
+            >
+              <p className="text-[9px] font-black uppercase tracking-widest" style={{ color: hover.turn.color }}>{hover.turn.speaker}</p>
+              <p className="text-xs text-slate-200 line-clamp-2">{hover.turn.text}</p>
+            </div>
+          )}
         </div>
+        {selection && (
+          <div className="flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+            <span className="text-sky-300 tabular-nums">Selection {formatTime(selection.start)}–{formatTime(selection.end)}</span>
+            <button onClick={loopSelection} className="text-slate-400 hover:text-amber-300">Loop selection</button>
+            <button onClick={() => updateSelection(null)} className="text-slate-400 hover:text-white">Clear</button>
+          </div>
+        )}
         <div className="flex justify-between text-[11px] font-black text-slate-500 tracking-widest px-1 tabular-nums">
           <span>{currentTimeDisplay}</span>
-          <span>{durationDisplay}</span>
+          <span>{formatTime(duration)}</span>
         </div>
+        <p className="text-[10px] text-slate-600 font-bold text-center">Space play • ← → previous / next turn • A / B loop points • L repeat sentence • Drag the waveform to select</p>
       </div>
     </div>
   );
-};
+});
@@ -0,0 +1,192 @@
+
+import { Scenario, Level, TopicId, Duration, PracticeSession } from "../types";
+import { getAllRecords, putRecord } from "./db";
+
+// Listening updates arrive many times a second, so sessions are written at most this often.
+const SAVE_DELAY_MS = 5000;
+const WEEKS_SHOWN = 8;
+const TOP_WORDS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionTracker {
+  addListening: (seconds: number) => void;
+  revealTranslation: () => void;
+  lookUpWord: (word: string) => void;
+  addQuizScore: (score: number, total: number) => void;
+  addDictationScore: (accuracy: number) => void;
+  // Writes anything still pending; the tracker ignores further events afterwards.
+  close: () => void;
+}
+
+export interface TopicBreakdown {
+  topic: TopicId;
+  topicName: string;
+  sessions: number;
+  minutesListened: number;
+  // Null when no quiz or dictation was done in this topic.
+  quizAccuracy: number | null;
+  dictationAccuracy: number | null;
+}
+
+export interface AnalyticsSummary {
+  totalSessions: number;
+  totalMinutes: number;
+  currentStreak: number;
+  longestStreak: number;
+  // Oldest first, each starting on a Monday.
+  weeklyMinutes: { weekStart: number; minutes: number }[];
+  topWords: { word: string; count: number }[];
+  topics: TopicBreakdown[];
+}
+
+interface SessionSettings {
+  level: Level;
+  topic: TopicId;
+  topicName: string;
+  duration: Duration;
+}
+
+export const startSession = (scenario: Scenario, settings: SessionSettings): SessionTracker => {
+  const now = Date.now();
+  const session: PracticeSession = {
+    id: Math.random().toString(36).substr(2, 9),
+    scenarioId: scenario.id,
+    title: scenario.title,
+    ...settings,
+    startedAt: now,
+    lastActiveAt: now,
+    secondsListened: 0,
+    translationsRevealed: 0,
+    wordsLookedUp: [],
+    quizScores: [],
+    dictationScores: []
+  };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let isClosed = false;
+
+  const save = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    putRecord('sessions', { ...session }).catch(err => console.error("Error saving session:", err));
+  };
+
+  const update = (apply: () => void) => {
+    if (isClosed) return;
+    apply();
+    session.lastActiveAt = Date.now();
+    if (!timer) timer = setTimeout(save, SAVE_DELAY_MS);
+  };
+
+  // The page can be closed before the timer fires.
+  const flush = () => {
+    if (timer) save();
+  };
+  // Nothing is written until the learner actually does something.
+  window.addEventListener('pagehide', flush);
+
+  return {
+    addListening: (seconds) => update(() => { session.secondsListened += seconds; }),
+    revealTranslation: () => update(() => { session.translationsRevealed++; }),
+    lookUpWord: (word) => update(() => { session.wordsLookedUp.push(word.toLowerCase()); }),
+    addQuizScore: (score, total) => update(() => { session.quizScores.push({ score, total }); }),
+    addDictationScore: (accuracy) => update(() => { session.dictationScores.push(accuracy); }),
+    close: () => {
+      if (isClosed) return;
+      isClosed = true;
+      window.removeEventListener('pagehide', flush);
+      flush();
+    }
+  };
+};
+
+export const listSessions = async (): Promise<PracticeSession[]> => {
+  const sessions = await getAllRecords<PracticeSession>('sessions');
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+const startOfDay = (time: number) => new Date(time).setHours(0, 0, 0, 0);
+
+const startOfWeek = (time: number) => {
+  const date = new Date(startOfDay(time));
+  // getDay() is 0 on Sunday; weeks start on Monday.
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+// Day lengths vary with daylight saving, so days are compared by rounding.
+const daysBetween = (a: number, b: number) => Math.round((b - a) / DAY_MS);
+
+const countStreaks = (sessions: PracticeSession[], now: number) => {
+  const days = Array.from(new Set(sessions.map(s => startOfDay(s.startedAt)))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && daysBetween(days[i - 1], day) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  // A streak is still alive until a whole day passes without practice.
+  const last = days[days.length - 1];
+  const current = last !== undefined && daysBetween(last, startOfDay(now)) <= 1 ? run : 0;
+  return { current, longest };
+};
+
+const accuracy = (pairs: { score: number; total: number }[]): number | null => {
+  const total = pairs.reduce((sum, p) => sum + p.total, 0);
+  return total ? pairs.reduce((sum, p) => sum + p.score, 0) / total : null;
+};
+
+const mean = (values: number[]): number | null =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export const summarizeSessions = (sessions: PracticeSession[], now: number = Date.now()): AnalyticsSummary => {
+  const thisWeek = startOfWeek(now);
+  const weeklyMinutes = Array.from({ length: WEEKS_SHOWN }, (_, i) => {
+    const date = new Date(thisWeek);
+    date.setDate(date.getDate() - (WEEKS_SHOWN - 1 - i) * 7);
+    return { weekStart: date.getTime(), minutes: 0 };
+  });
+  sessions.forEach(s => {
+    const week = weeklyMinutes.find(w => w.weekStart === startOfWeek(s.startedAt));
+    if (week) week.minutes += s.secondsListened / 60;
+  });
+
+  const wordCounts = new Map<string, number>();
+  sessions.forEach(s => s.wordsLookedUp.forEach(w => wordCounts.set(w, (wordCounts.get(w) || 0) + 1)));
+  const topWords = Array.from(wordCounts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, TOP_WORDS);
+
+  const byTopic = new Map<TopicId, PracticeSession[]>();
+  sessions.forEach(s => byTopic.set(s.topic, [...(byTopic.get(s.topic) || []), s]));
+  const topics = Array.from(byTopic.entries())
+    .map(([topic, group]) => ({
+      topic,
+      // The most recent name wins if a custom topic was renamed.
+      topicName: group[group.length - 1].topicName,
+      sessions: group.length,
+      minutesListened: group.reduce((sum, s) => sum + s.secondsListened, 0) / 60,
+      quizAccuracy: accuracy(group.flatMap(s => s.quizScores)),
+      dictationAccuracy: mean(group.flatMap(s => s.dictationScores))
+    }))
+    .sort((a, b) => b.sessions - a.sessions);
+
+  const streaks = countStreaks(sessions, now);
+  return {
+    totalSessions: sessions.length,
+    totalMinutes: sessions.reduce((sum, s) => sum + s.secondsListened, 0) / 60,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    weeklyMinutes,
+    topWords,
+    topics
+  };
+};
+
+// Everything recorded, plus the summary the dashboard shows, for someone reviewing progress elsewhere.
+export const exportAnalyticsJson = (sessions: PracticeSession[]): string =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    summary: summarizeSessions(sessions),
+    sessions
+  }, null, 2);
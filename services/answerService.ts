@@ -0,0 +1,108 @@
+
+import { Scenario, AnswerAttempt, AnswerFeedback, AnswerCriterion } from "../types";
+import { getAllRecords, getRecordsByIndex, putRecord } from "./db";
+import { ANSWER_CRITERIA } from "./validation";
+
+export interface InterviewQuestion {
+  // The interviewer's lines since the candidate last spoke, joined.
+  question: string;
+  questionTurns: number[];
+  // The candidate turn that answers it, used as the model answer.
+  answerTurn: number;
+}
+
+export const findInterviewQuestions = (scenario: Scenario): InterviewQuestion[] => {
+  const questions: InterviewQuestion[] = [];
+  let asked: number[] = [];
+  scenario.dialogue.forEach((turn, idx) => {
+    if (turn.role === 'interviewer') {
+      asked.push(idx);
+    } else if (turn.role === 'candidate' && asked.length) {
+      questions.push({ question: asked.map(i => scenario.dialogue[i].text).join(' '), questionTurns: asked, answerTurn: idx });
+      asked = [];
+    }
+  });
+  return questions;
+};
+
+export interface CorrectionToken {
+  kind: 'kept' | 'removed' | 'added';
+  text: string;
+}
+
+// Word diff from the learner's answer to the corrected one. Unlike dictation scoring it is
+// exact, so fixes to capitals and punctuation show up, and each replaced run of words is
+// listed before its replacement.
+export const diffCorrections = (answer: string, corrected: string): CorrectionToken[] => {
+  const from = answer.split(/\s+/).filter(Boolean);
+  const to = corrected.split(/\s+/).filter(Boolean);
+  // common[i][j] = longest common run of from[i:] and to[j:]
+  const common: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      common[i][j] = from[i] === to[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const tokens: CorrectionToken[] = [];
+  let removed: CorrectionToken[] = [];
+  let added: CorrectionToken[] = [];
+  const flush = () => {
+    tokens.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      flush();
+      tokens.push({ kind: 'kept', text: from[i] });
+      i++;
+      j++;
+    } else if (i < from.length && (j === to.length || common[i + 1][j] >= common[i][j + 1])) {
+      removed.push({ kind: 'removed', text: from[i] });
+      i++;
+    } else {
+      added.push({ kind: 'added', text: to[j] });
+      j++;
+    }
+  }
+  flush();
+  return tokens;
+};
+
+export const averageScore = (feedback: AnswerFeedback): number =>
+  ANSWER_CRITERIA.reduce((sum, c) => sum + feedback.scores[c], 0) / ANSWER_CRITERIA.length;
+
+export const saveAnswerAttempt = async (input: Omit<AnswerAttempt, 'id' | 'createdAt'>): Promise<AnswerAttempt> => {
+  const attempt: AnswerAttempt = {
+    ...input,
+    id: Math.random().toString(36).substr(2, 9),
+    createdAt: Date.now()
+  };
+  await putRecord('answerAttempts', attempt);
+  return attempt;
+};
+
+export const listAnswerAttempts = async (scenarioId: string): Promise<AnswerAttempt[]> => {
+  const attempts = await getRecordsByIndex<AnswerAttempt>('answerAttempts', 'scenarioId', scenarioId);
+  return attempts.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Mean score per criterion over every interview answered so far, oldest first, grouped by day.
+export const getAnswerProgress = async (): Promise<{ day: number; scores: Record<AnswerCriterion, number>; count: number }[]> => {
+  const attempts = await getAllRecords<AnswerAttempt>('answerAttempts');
+  const byDay = new Map<number, AnswerAttempt[]>();
+  attempts.forEach(a => {
+    const day = new Date(a.createdAt).setHours(0, 0, 0, 0);
+    byDay.set(day, [...(byDay.get(day) || []), a]);
+  });
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([day, group]) => ({
+      day,
+      count: group.length,
+      scores: Object.fromEntries(ANSWER_CRITERIA.map(c => [c, group.reduce((sum, a) => sum + a.feedback.scores[c], 0) / group.length])) as Record<AnswerCriterion, number>
+    }));
+};
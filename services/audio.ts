@@ -0,0 +1,100 @@
+
+import { TurnTiming, AudioChunk } from "../types";
+
+export const PCM_SAMPLE_RATE = 24000;
+export const TURN_GAP_SECONDS = 0.4;
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binaryString);
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number = PCM_SAMPLE_RATE,
+  numChannels: number = 1
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const samples = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    samples[i] = dataInt16[i] / 32768.0;
+  }
+  return samples;
+}
+
+// Joins per-turn 16-bit PCM clips with a short silence between them and
+// records where each clip lands in the combined track.
+export function concatPcmSegments(
+  segments: Uint8Array[],
+  gapSeconds: number = TURN_GAP_SECONDS,
+  sampleRate: number = PCM_SAMPLE_RATE
+): { pcm: Uint8Array; timings: TurnTiming[] } {
+  const gapBytes = Math.round(gapSeconds * sampleRate) * 2;
+  const totalBytes = segments.reduce((acc, seg) => acc + seg.length + gapBytes, 0);
+  const pcm = new Uint8Array(totalBytes);
+  const timings: TurnTiming[] = [];
+
+  let cursor = 0;
+  for (const segment of segments) {
+    pcm.set(segment, cursor);
+    timings.push({
+      start: cursor / 2 / sampleRate,
+      end: (cursor + segment.length) / 2 / sampleRate
+    });
+    cursor += segment.length + gapBytes;
+  }
+  return { pcm, timings };
+}
+
+// Per-turn clips may finish out of order. This hands them to `onChunk` in
+// dialogue order as soon as every earlier turn is ready, laid out exactly as
+// concatPcmSegments lays out the finished track.
+export function createOrderedPcmChunker(count: number, onChunk?: (chunk: AudioChunk) => void) {
+  const segments: Uint8Array[] = new Array(count);
+  let emitted = 0;
+  let emittedSeconds = 0;
+
+  const add = (idx: number, segment: Uint8Array) => {
+    segments[idx] = segment;
+    const from = emitted;
+    while (emitted < count && segments[emitted]) emitted++;
+    if (!onChunk || emitted === from) return;
+    const { pcm, timings } = concatPcmSegments(segments.slice(from, emitted));
+    onChunk({
+      pcm,
+      timings: timings.map(t => ({ start: t.start + emittedSeconds, end: t.end + emittedSeconds }))
+    });
+    emittedSeconds += pcm.length / 2 / PCM_SAMPLE_RATE;
+  };
+
+  return { add, finish: () => concatPcmSegments(segments) };
+}
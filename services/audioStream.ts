@@ -0,0 +1,40 @@
+
+// Dialogue audio that arrives in pieces: 16-bit PCM chunks in playback order,
+// each starting exactly where the previous one ended.
+export interface AudioStream {
+  push: (chunk: Uint8Array) => void;
+  complete: () => void;
+  // Replays the chunks received so far, then forwards new ones as they arrive.
+  // Returns an unsubscribe function.
+  subscribe: (onChunk: (chunk: Uint8Array) => void, onComplete: () => void) => () => void;
+}
+
+export const createAudioStream = (): AudioStream => {
+  const chunks: Uint8Array[] = [];
+  const listeners = new Set<{ onChunk: (chunk: Uint8Array) => void; onComplete: () => void }>();
+  let isComplete = false;
+
+  return {
+    push: (chunk) => {
+      chunks.push(chunk);
+      listeners.forEach(l => l.onChunk(chunk));
+    },
+    complete: () => {
+      isComplete = true;
+      listeners.forEach(l => l.onComplete());
+      listeners.clear();
+    },
+    subscribe: (onChunk, onComplete) => {
+      chunks.forEach(onChunk);
+      if (isComplete) {
+        onComplete();
+        return () => {};
+      }
+      const listener = { onChunk, onComplete };
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,117 @@
+
+import { CacheEntry, CacheKind, CacheStats } from "../types";
+import { getRecord, getAllRecords, putRecord, deleteRecord, clearStore } from "./db";
+import { getErrorCategory } from "./errors";
+
+export const CACHE_LIMIT_BYTES = 100 * 1024 * 1024;
+
+interface CachePayload<T> {
+  key: string;
+  value: T;
+}
+
+const inFlight = new Map<string, Promise<unknown>>();
+const counters = { hits: 0, misses: 0 };
+
+// Spacing differences in the same text shouldn't produce a new key.
+export const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+// 64-bit FNV-1a, for pages served over plain http (e.g. from another device on the LAN),
+// where crypto.subtle isn't available.
+const fnv1a = (bytes: Uint8Array): string => {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of bytes) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+// SHA-256 of the JSON-encoded inputs, so equal requests share one key.
+export const hashKey = async (parts: unknown[]): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(parts));
+  if (!globalThis.crypto?.subtle) return `fnv-${fnv1a(bytes)}`;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const removeEntry = async (key: string) => {
+  await deleteRecord('cacheData', key);
+  await deleteRecord('cache', key);
+};
+
+// Drops the least recently used responses until the cache fits its limit.
+const evict = async () => {
+  const entries = await getAllRecords<CacheEntry>('cache');
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= CACHE_LIMIT_BYTES) break;
+    await removeEntry(entry.key);
+    total -= entry.size;
+  }
+};
+
+const read = async <T,>(key: string): Promise<T | undefined> => {
+  const entry = await getRecord<CacheEntry>('cache', key);
+  if (!entry) return undefined;
+  const payload = await getRecord<CachePayload<T>>('cacheData', key);
+  if (!payload) return undefined;
+  await putRecord<CacheEntry>('cache', { ...entry, lastUsedAt: Date.now() });
+  return payload.value;
+};
+
+const write = async <T,>(key: string, kind: CacheKind, value: T) => {
+  const size = JSON.stringify(value).length;
+  if (size > CACHE_LIMIT_BYTES) return;
+  const now = Date.now();
+  await putRecord<CachePayload<T>>('cacheData', { key, value });
+  await putRecord<CacheEntry>('cache', { key, kind, size, createdAt: now, lastUsedAt: now });
+  await evict();
+};
+
+// Answers from the cache when it can, otherwise joins an identical request
+// that is already running, and only then calls `compute` and stores the result.
+// Failed requests are never cached.
+export const cached = async <T,>(kind: CacheKind, key: string, compute: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const running = inFlight.get(key) as Promise<T> | undefined;
+  if (running) {
+    try {
+      return await running;
+    } catch (err) {
+      // Whoever started the shared request cancelled it; that shouldn't cancel this caller too.
+      if (getErrorCategory(err) !== 'cancelled' || signal?.aborted) throw err;
+      return cached(kind, key, compute, signal);
+    }
+  }
+
+  const task = (async () => {
+    const hit = await read<T>(key).catch(err => {
+      console.error("Error reading cache:", err);
+      return undefined;
+    });
+    if (hit !== undefined) {
+      counters.hits++;
+      return hit;
+    }
+    counters.misses++;
+    const value = await compute();
+    write(key, kind, value).catch(err => console.error("Error writing cache:", err));
+    return value;
+  })().finally(() => inFlight.delete(key));
+  inFlight.set(key, task);
+  return task;
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const entries = await getAllRecords<CacheEntry>('cache');
+  const byKind: CacheStats['byKind'] = { definition: { entries: 0, size: 0 }, audio: { entries: 0, size: 0 }, pronunciation: { entries: 0, size: 0 } };
+  entries.forEach(e => {
+    byKind[e.kind].entries++;
+    byKind[e.kind].size += e.size;
+  });
+  return { limit: CACHE_LIMIT_BYTES, byKind, ...counters };
+};
+
+export const clearCache = async (): Promise<void> => {
+  await clearStore('cacheData');
+  await clearStore('cache');
+};
@@ -0,0 +1,20 @@
+
+export type ProviderName = 'gemini' | 'mock';
+
+export interface AIConfig {
+  provider: ProviderName;
+  apiKey: string;
+  textModel: string;
+  ttsModel: string;
+}
+
+const resolveProvider = (value: string | undefined): ProviderName => {
+  return value === 'mock' ? 'mock' : 'gemini';
+};
+
+export const aiConfig: AIConfig = {
+  provider: resolveProvider(process.env.AI_PROVIDER),
+  apiKey: process.env.API_KEY || '',
+  textModel: process.env.GEMINI_TEXT_MODEL || 'gemini-3-flash-preview',
+  ttsModel: process.env.GEMINI_TTS_MODEL || 'gemini-2.5-flash-preview-tts'
+};
@@ -0,0 +1,91 @@
+
+const DB_NAME = 'career-english-hub';
+const DB_VERSION = 9;
+
+export type StoreName = 'library' | 'deck' | 'quizResults' | 'settings' | 'topics' | 'cache' | 'cacheData' | 'answerAttempts' | 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('library')) {
+          const store = db.createObjectStore('library', { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains('deck')) {
+          db.createObjectStore('deck', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('quizResults')) {
+          const store = db.createObjectStore('quizResults', { keyPath: 'id' });
+          store.createIndex('scenarioId', 'scenarioId');
+        }
+        if (!db.objectStoreNames.contains('settings')) {
+          db.createObjectStore('settings', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('topics')) {
+          db.createObjectStore('topics', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('cache')) {
+          db.createObjectStore('cache', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('cacheData')) {
+          db.createObjectStore('cacheData', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('answerAttempts')) {
+          const store = db.createObjectStore('answerAttempts', { keyPath: 'id' });
+          store.createIndex('scenarioId', 'scenarioId');
+        }
+        if (!db.objectStoreNames.contains('sessions')) {
+          const store = db.createObjectStore('sessions', { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getRecord = async <T,>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key));
+};
+
+export const getAllRecords = async <T,>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll());
+};
+
+export const getRecordsByIndex = async <T,>(store: StoreName, index: string, key: IDBValidKey): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).index(index).getAll(key));
+};
+
+export const putRecord = async <T,>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
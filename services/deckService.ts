@@ -0,0 +1,80 @@
+
+import { DeckEntry, ReviewCard, ReviewDirection, Scenario, VocabularyItem } from "../types";
+import { getRecord, getAllRecords, putRecord, deleteRecord } from "./db";
+import { applyReview, createSchedule, isDue, ReviewGrade } from "./srs";
+
+export const REVIEW_DIRECTIONS: ReviewDirection[] = ['recognition', 'recall'];
+
+export interface DeckAddition {
+  item: VocabularyItem;
+  context: string;
+  scenarioId?: string;
+}
+
+const toDeckId = (word: string) => word.trim().toLowerCase();
+
+export const listDeck = (): Promise<DeckEntry[]> => getAllRecords<DeckEntry>('deck');
+
+// Adds new words and refreshes the definition of existing ones while keeping
+// their review history intact.
+export const addToDeck = async (additions: DeckAddition[]): Promise<void> => {
+  const now = Date.now();
+  for (const { item, context, scenarioId } of additions) {
+    const id = toDeckId(item.word);
+    if (!id) continue;
+    const existing = await getRecord<DeckEntry>('deck', id);
+    const { isCustom, ...definition } = item;
+    const entry: DeckEntry = existing
+      ? { ...existing, item: { ...existing.item, ...definition }, context: existing.context || context }
+      : {
+          id,
+          item: definition,
+          context,
+          scenarioId,
+          schedule: { recognition: createSchedule(now), recall: createSchedule(now) },
+          createdAt: now
+        };
+    await putRecord('deck', entry);
+  }
+};
+
+export const findSourceSentence = (scenario: Scenario, word: string): string => {
+  const needle = word.toLowerCase();
+  return scenario.dialogue.find(turn => turn.text.toLowerCase().includes(needle))?.text || '';
+};
+
+export const addScenarioVocabulary = (scenario: Scenario): Promise<void> => {
+  return addToDeck(scenario.vocabulary.map(item => ({
+    item,
+    context: findSourceSentence(scenario, item.word),
+    scenarioId: scenario.id
+  })));
+};
+
+export const getDueCards = (entries: DeckEntry[], now: number = Date.now()): ReviewCard[] => {
+  return entries
+    .flatMap(entry => REVIEW_DIRECTIONS.map(direction => ({ entry, direction })))
+    .filter(card => isDue(card.entry.schedule[card.direction], now))
+    .sort((a, b) => a.entry.schedule[a.direction].due - b.entry.schedule[b.direction].due);
+};
+
+export const countDueCards = async (): Promise<number> => {
+  return getDueCards(await listDeck()).length;
+};
+
+// Both directions of an entry can be reviewed in one session, so the stored entry is
+// re-read to keep the other direction's latest schedule.
+export const recordReview = async (card: ReviewCard, grade: ReviewGrade): Promise<DeckEntry> => {
+  const current = (await getRecord<DeckEntry>('deck', card.entry.id)) || card.entry;
+  const entry: DeckEntry = {
+    ...current,
+    schedule: {
+      ...current.schedule,
+      [card.direction]: applyReview(current.schedule[card.direction], grade)
+    }
+  };
+  await putRecord('deck', entry);
+  return entry;
+};
+
+export const removeFromDeck = (id: string): Promise<void> => deleteRecord('deck', id);
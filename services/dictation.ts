@@ -0,0 +1,108 @@
+
+export type DiffKind = 'correct' | 'missing' | 'extra' | 'misspelled';
+
+export interface DiffToken {
+  kind: DiffKind;
+  expected?: string;
+  actual?: string;
+}
+
+export interface DictationScore {
+  tokens: DiffToken[];
+  // 0-1; misspellings earn half credit and extra words count against the total.
+  accuracy: number;
+  expectedWords: number;
+}
+
+const tokenize = (text: string): string[] =>
+  text.split(/\s+/).map(w => w.trim()).filter(Boolean);
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[’']/g, "'").replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '');
+
+const charDistance = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = temp;
+    }
+  }
+  return prev[b.length];
+};
+
+// Close enough to be the intended word with a typo, rather than a different word.
+const isMisspelling = (expected: string, actual: string) => {
+  const allowed = expected.length <= 4 ? 1 : Math.ceil(expected.length / 3);
+  return charDistance(expected, actual) <= allowed;
+};
+
+export const diffWords = (expectedText: string, actualText: string): DiffToken[] => {
+  const expected = tokenize(expectedText);
+  const actual = tokenize(actualText);
+  const exp = expected.map(normalizeWord);
+  const act = actual.map(normalizeWord);
+  const n = exp.length;
+  const m = act.length;
+
+  const substitutionCost = (i: number, j: number) =>
+    exp[i] === act[j] ? 0 : isMisspelling(exp[i], act[j]) ? 0.5 : 2;
+
+  // cost[i][j] = cheapest alignment of expected[i:] with actual[j:]
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n; i >= 0; i--) {
+    for (let j = m; j >= 0; j--) {
+      if (i === n) cost[i][j] = m - j;
+      else if (j === m) cost[i][j] = n - i;
+      else cost[i][j] = Math.min(
+        cost[i + 1][j + 1] + substitutionCost(i, j),
+        cost[i + 1][j] + 1,
+        cost[i][j + 1] + 1
+      );
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && cost[i][j] === cost[i + 1][j + 1] + substitutionCost(i, j)) {
+      const sub = substitutionCost(i, j);
+      if (sub === 0) {
+        tokens.push({ kind: 'correct', expected: expected[i], actual: actual[j] });
+      } else if (sub < 1) {
+        tokens.push({ kind: 'misspelled', expected: expected[i], actual: actual[j] });
+      } else {
+        tokens.push({ kind: 'missing', expected: expected[i] }, { kind: 'extra', actual: actual[j] });
+      }
+      i++;
+      j++;
+    } else if (i < n && (j === m || cost[i][j] === cost[i + 1][j] + 1)) {
+      tokens.push({ kind: 'missing', expected: expected[i] });
+      i++;
+    } else {
+      tokens.push({ kind: 'extra', actual: actual[j] });
+      j++;
+    }
+  }
+  return tokens;
+};
+
+export const scoreDictation = (expectedText: string, actualText: string): DictationScore => {
+  const tokens = diffWords(expectedText, actualText);
+  const count = (kind: DiffKind) => tokens.filter(t => t.kind === kind).length;
+  const expectedWords = tokenize(expectedText).length;
+  const denominator = expectedWords + count('extra');
+  const accuracy = denominator ? (count('correct') + count('misspelled') * 0.5) / denominator : 1;
+  return { tokens, accuracy, expectedWords };
+};
+
+// Weighted by turn length so one short line doesn't dominate the overall score.
+export const overallAccuracy = (scores: DictationScore[]): number => {
+  const words = scores.reduce((acc, s) => acc + s.expectedWords, 0);
+  if (!words) return 0;
+  return scores.reduce((acc, s) => acc + s.accuracy * s.expectedWords, 0) / words;
+};
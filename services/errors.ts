@@ -0,0 +1,98 @@
+export class MalformedOutputError extends Error {
+  constructor(public readonly target: 'scenario' | 'definition' | 'quiz' | 'feedback', public readonly issues: string[]) {
+    super(`Model returned an invalid ${target}: ${issues.join('; ')}`);
+    this.name = 'MalformedOutputError';
+  }
+}
+
+export type ErrorCategory = 'auth' | 'quota' | 'safety' | 'malformed' | 'network' | 'cancelled' | 'unknown';
+
+// A failure the provider has already classified, e.g. a missing key or a blocked prompt.
+export class ProviderError extends Error {
+  constructor(public readonly category: ErrorCategory, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const createCancelledError = () => new ProviderError('cancelled', 'The request was cancelled.');
+
+const readStatus = (err: object): number | undefined => {
+  const status = (err as { status?: unknown }).status;
+  if (typeof status === 'number') return status;
+  // Some SDK errors only carry the status inside the message, e.g. "got status: 429".
+  const match = /\bstatus:?\s*(\d{3})\b/.exec(String((err as { message?: unknown }).message || ''));
+  return match ? Number(match[1]) : undefined;
+};
+
+export const getErrorCategory = (err: unknown): ErrorCategory => {
+  if (err instanceof ProviderError) return err.category;
+  if (err instanceof MalformedOutputError) return 'malformed';
+  if (!err || typeof err !== 'object') return 'unknown';
+  if ((err as { name?: unknown }).name === 'AbortError') return 'cancelled';
+
+  const status = readStatus(err);
+  const message = String((err as { message?: unknown }).message || '');
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (status !== undefined && status >= 500) return 'network';
+  // fetch rejects with a TypeError when the connection itself fails; other TypeErrors are bugs, not outages.
+  if (/Failed to fetch|NetworkError when attempting to fetch resource|Load failed|^network error$/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+// Rate limits and transient server or connection failures usually clear up on their own.
+export const isRetryable = (err: unknown): boolean => {
+  const category = getErrorCategory(err);
+  return category === 'quota' || category === 'network';
+};
+
+export interface ErrorDetails {
+  category: ErrorCategory;
+  title: string;
+  message: string;
+}
+
+const malformedMessage = (err: unknown): string => {
+  if (err instanceof MalformedOutputError) {
+    if (err.target === 'scenario') {
+      return "The AI produced a dialogue we couldn't use, even after asking it to fix it. Please try generating again.";
+    }
+    if (err.target === 'quiz') {
+      return "The AI produced quiz questions we couldn't use. Please try again.";
+    }
+    if (err.target === 'feedback') {
+      return "We couldn't read the feedback on your answer. Please try again.";
+    }
+    return "We couldn't understand the definition returned for that word. Please try again.";
+  }
+  return "The AI returned a response we couldn't use. Please try again.";
+};
+
+export const describeError = (err: unknown): ErrorDetails => {
+  const category = getErrorCategory(err);
+  switch (category) {
+    case 'auth':
+      return {
+        category,
+        title: 'API key problem',
+        message: err instanceof ProviderError
+          ? err.message
+          : 'The Gemini API rejected the configured key. Check GEMINI_API_KEY in .env.local and restart the app.'
+      };
+    case 'quota':
+      return { category, title: 'Rate limit reached', message: 'The Gemini API is receiving too many requests from this key. Wait a minute, then try again.' };
+    case 'safety':
+      return { category, title: 'Blocked by safety filters', message: 'The AI declined to write this content. Try a different topic or reword the job posting.' };
+    case 'malformed':
+      return { category, title: 'Unusable response', message: malformedMessage(err) };
+    case 'network':
+      return { category, title: 'Connection problem', message: "We couldn't reach the Gemini API. Check your internet connection and try again." };
+    case 'cancelled':
+      return { category, title: 'Generation cancelled', message: 'Generation stopped. Start again whenever you are ready.' };
+    default:
+      return { category, title: 'Something went wrong', message: 'Failed to create session. Please try again.' };
+  }
+};
+
+export const getErrorMessage = (err: unknown): string => describeError(err).message;
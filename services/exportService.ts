@@ -0,0 +1,152 @@
+
+import { Scenario, TurnTiming, VocabularyItem, LanguageCode } from "../types";
+import { decodeBase64, PCM_SAMPLE_RATE } from "./audio";
+import { translationAttrs } from "./languages";
+
+export type SubtitleTrack = 'english' | 'translation' | 'bilingual';
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'scenario';
+
+export const downloadFile = (content: Blob | string, filename: string, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Wraps raw 16-bit PCM in a RIFF/WAVE header so any player can open it.
+export const encodeWav = (pcm: Uint8Array, sampleRate: number = PCM_SAMPLE_RATE, numChannels: number = 1): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const byteRate = sampleRate * numChannels * 2;
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, byteRate, true);
+  header.setUint16(32, numChannels * 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+export const base64PcmToWav = (base64Audio: string): Blob => encodeWav(decodeBase64(base64Audio));
+
+// Cuts [start, end) seconds out of the dialogue audio, e.g. a waveform selection.
+export const base64PcmRangeToWav = (base64Audio: string, start: number, end: number): Blob => {
+  const pcm = decodeBase64(base64Audio);
+  const from = Math.max(0, Math.floor(start * PCM_SAMPLE_RATE) * 2);
+  const to = Math.min(pcm.length, Math.ceil(end * PCM_SAMPLE_RATE) * 2);
+  return encodeWav(pcm.slice(from, Math.max(from, to)));
+};
+
+const formatTimestamp = (seconds: number, separator: '.' | ',') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const cueText = (scenario: Scenario, idx: number, track: SubtitleTrack) => {
+  const turn = scenario.dialogue[idx];
+  const english = `${turn.speaker}: ${turn.text}`;
+  if (track === 'english') return english;
+  if (track === 'translation') return turn.translation.text;
+  return `${english}\n${turn.translation.text}`;
+};
+
+export const buildWebVtt = (scenario: Scenario, timings: TurnTiming[], track: SubtitleTrack): string => {
+  const cues = timings.map((t, idx) =>
+    `${idx + 1}\n${formatTimestamp(t.start, '.')} --> ${formatTimestamp(t.end, '.')}\n${cueText(scenario, idx, track)}`
+  );
+  return `WEBVTT - ${scenario.title}\n\n${cues.join('\n\n')}\n`;
+};
+
+export const buildSrt = (scenario: Scenario, timings: TurnTiming[], track: SubtitleTrack): string => {
+  const cues = timings.map((t, idx) =>
+    `${idx + 1}\n${formatTimestamp(t.start, ',')} --> ${formatTimestamp(t.end, ',')}\n${cueText(scenario, idx, track)}`
+  );
+  return `${cues.join('\n\n')}\n`;
+};
+
+export const buildMarkdownTranscript = (scenario: Scenario, vocabulary: VocabularyItem[]): string => {
+  const lines = [
+    `# ${scenario.title}`,
+    '',
+    `_${scenario.context}_`,
+    '',
+    '## Dialogue',
+    '',
+    ...scenario.dialogue.flatMap(turn => [`**${turn.speaker}** (${turn.role}): ${turn.text}`, '', `> ${turn.translation.text}`, '']),
+    '## Vocabulary',
+    '',
+    '| Word | Part of speech | Meaning | Translation |',
+    '| --- | --- | --- | --- |',
+    ...vocabulary.map(v => `| ${v.word} | ${v.partOfSpeech} | ${v.englishMeaning} | ${v.translation.text} |`)
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlLangAttrs = (code: LanguageCode) => {
+  const { lang, dir } = translationAttrs(code);
+  return `lang="${lang}" dir="${dir}"`;
+};
+
+export const buildHtmlTranscript = (scenario: Scenario, vocabulary: VocabularyItem[]): string => {
+  const turns = scenario.dialogue.map(turn => `
+    <div class="turn">
+      <p class="speaker">${escapeHtml(turn.speaker)} · ${escapeHtml(turn.role)}</p>
+      <p>${escapeHtml(turn.text)}</p>
+      <p class="translation" ${htmlLangAttrs(turn.translation.lang)}>${escapeHtml(turn.translation.text)}</p>
+    </div>`).join('');
+  const rows = vocabulary.map(v => `
+      <tr><td><strong>${escapeHtml(v.word)}</strong></td><td>${escapeHtml(v.partOfSpeech)}</td><td>${escapeHtml(v.englishMeaning)}</td><td class="translation" ${htmlLangAttrs(v.translation.lang)}>${escapeHtml(v.translation.text)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(scenario.title)}</title>
+  <style>
+    body { font-family: 'Inter', sans-serif; max-width: 800px; margin: 2rem auto; color: #0f172a; line-height: 1.6; }
+    .context { font-style: italic; color: #475569; }
+    .turn { break-inside: avoid; border-bottom: 1px solid #e2e8f0; padding: 0.5rem 0; }
+    .speaker { font-size: 0.75rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em; color: #0284c7; margin: 0; }
+    .translation { color: #334155; }
+    .translation[dir="rtl"] { font-family: 'Vazirmatn', sans-serif; }
+    table { width: 100%; border-collapse: collapse; }
+    td, th { border: 1px solid #e2e8f0; padding: 0.4rem; text-align: left; vertical-align: top; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(scenario.title)}</h1>
+  <p class="context">${escapeHtml(scenario.context)}</p>
+  <h2>Dialogue</h2>${turns}
+  <h2>Vocabulary</h2>
+  <table>
+    <thead><tr><th>Word</th><th>Part of speech</th><th>Meaning</th><th>Translation</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
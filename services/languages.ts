@@ -0,0 +1,23 @@
+
+import { LanguageCode } from "../types";
+
+export interface TranslationLanguage {
+  code: LanguageCode;
+  name: string;
+  direction: 'rtl' | 'ltr';
+}
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'fa', name: 'Persian', direction: 'rtl' },
+  { code: 'ar', name: 'Arabic', direction: 'rtl' },
+  { code: 'tr', name: 'Turkish', direction: 'ltr' },
+  { code: 'es', name: 'Spanish', direction: 'ltr' }
+];
+
+export const DEFAULT_TRANSLATION_LANGUAGE: LanguageCode = 'fa';
+
+export const getLanguage = (code: LanguageCode): TranslationLanguage =>
+  TRANSLATION_LANGUAGES.find(l => l.code === code) || TRANSLATION_LANGUAGES[0];
+
+// Spread onto any element showing translated text; the `translation` class picks a matching font.
+export const translationAttrs = (code: LanguageCode) => ({ lang: code, dir: getLanguage(code).direction });
@@ -0,0 +1,160 @@
+
+import { VocabularyItem, LearnerProfile } from "../types";
+import { getWordDefinition } from "./geminiService";
+import { sleep, throwIfCancelled } from "./retry";
+import { getErrorCategory } from "./errors";
+
+export interface ImportedWord {
+  word: string;
+  context?: string;
+}
+
+export interface EnrichProgress {
+  done: number;
+  total: number;
+  failed: string[];
+}
+
+const IMPORT_BATCH_SIZE = 3;
+const IMPORT_BATCH_DELAY_MS = 1500;
+
+const COLUMNS = ['Word', 'Part of speech', 'English meaning', 'Translation', 'Source sentence'];
+
+const toRow = (item: VocabularyItem) => [
+  item.word,
+  item.partOfSpeech,
+  item.englishMeaning,
+  item.translation.text,
+  item.sourceSentence || ''
+];
+
+const escapeCsvField = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportVocabularyCsv = (items: VocabularyItem[]): string => {
+  return [COLUMNS, ...items.map(toRow)]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+// Anki reads these header lines and maps columns to note fields without extra dialogs.
+export const exportVocabularyAnki = (items: VocabularyItem[]): string => {
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const header = ['#separator:tab', '#html:false', `#columns:${COLUMNS.join('\t')}`];
+  return [...header, ...items.map(item => toRow(item).map(clean).join('\t'))].join('\n') + '\n';
+};
+
+export const exportVocabularyJson = (items: VocabularyItem[]): string => {
+  return JSON.stringify(items.map(({ isCustom, ...item }) => item), null, 2);
+};
+
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Accepts our JSON export, Anki/TSV or CSV exports, or a plain list with one word per line.
+export const parseWordList = (text: string): ImportedWord[] => {
+  const trimmed = text.trim();
+  let words: ImportedWord[];
+
+  if (trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    words = (Array.isArray(data) ? data : []).map((entry: unknown) => {
+      if (typeof entry === 'string') return { word: entry };
+      const fields: { word?: unknown; sourceSentence?: unknown } = entry && typeof entry === 'object' ? entry : {};
+      return {
+        word: typeof fields.word === 'string' ? fields.word : '',
+        context: typeof fields.sourceSentence === 'string' && fields.sourceSentence ? fields.sourceSentence : undefined
+      };
+    });
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => !line.startsWith('#'));
+    const body = lines.join('\n');
+    const delimiter = body.includes('\t') ? '\t' : body.includes(',') ? ',' : null;
+    const rows = delimiter ? parseDelimited(body, delimiter) : lines.map(line => [line]);
+    const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === 'word';
+    words = rows.slice(hasHeader ? 1 : 0).map(row => ({
+      word: row[0] || '',
+      context: row[4] || undefined
+    }));
+  }
+
+  const seen = new Set<string>();
+  return words
+    .map(w => ({ ...w, word: w.word.trim() }))
+    .filter(w => {
+      const key = w.word.toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Looks words up a few at a time with a pause between batches to stay under API rate limits.
+export const enrichWords = async (
+  words: ImportedWord[],
+  profile: LearnerProfile,
+  onProgress: (progress: EnrichProgress) => void,
+  signal?: AbortSignal
+): Promise<VocabularyItem[]> => {
+  // Lookups finish out of order; results keep the order of the imported file.
+  const results: (VocabularyItem | undefined)[] = new Array(words.length);
+  const failed: string[] = [];
+  let done = 0;
+  onProgress({ done, total: words.length, failed });
+
+  for (let i = 0; i < words.length; i += IMPORT_BATCH_SIZE) {
+    if (i > 0) await sleep(IMPORT_BATCH_DELAY_MS, signal);
+    throwIfCancelled(signal);
+    const batch = words.slice(i, i + IMPORT_BATCH_SIZE);
+    await Promise.all(batch.map(async ({ word, context }, j) => {
+      try {
+        const def = await getWordDefinition(word, context || word, profile, signal);
+        results[i + j] = { ...def, sourceSentence: context };
+      } catch (err) {
+        if (getErrorCategory(err) === 'cancelled') return;
+        console.error(`Error enriching "${word}":`, err);
+        failed.push(word);
+      }
+      done++;
+      onProgress({ done, total: words.length, failed: [...failed] });
+    }));
+  }
+  throwIfCancelled(signal);
+  return results.filter((item): item is VocabularyItem => !!item);
+};
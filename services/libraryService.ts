@@ -0,0 +1,84 @@
+
+import { LibraryEntry, TopicDefinition } from "../types";
+import { getRecord, getAllRecords, putRecord, deleteRecord } from "./db";
+import { getTopicName } from "./topicService";
+
+export type LibraryEntryInput = Omit<LibraryEntry, 'createdAt' | 'updatedAt' | 'title'> & { title?: string };
+
+export const listLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  await flushLibrarySave();
+  const entries = await getAllRecords<LibraryEntry>('library');
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getLibraryEntry = (id: string): Promise<LibraryEntry | undefined> => {
+  return getRecord<LibraryEntry>('library', id);
+};
+
+// Upserts an entry, keeping its original creation time and any audio
+// variant that the caller didn't supply.
+export const saveLibraryEntry = async (input: LibraryEntryInput): Promise<LibraryEntry> => {
+  const existing = await getLibraryEntry(input.id);
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    ...input,
+    title: input.title || existing?.title || input.scenario.title,
+    audio: { ...existing?.audio, ...input.audio },
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+  await putRecord('library', entry);
+  return entry;
+};
+
+// Toggling a translation shouldn't rewrite the entry and its audio every time,
+// so saves from the practice screen are batched.
+const SAVE_DELAY_MS = 1000;
+let pendingSave: { input: LibraryEntryInput; timer: ReturnType<typeof setTimeout> } | null = null;
+
+export const flushLibrarySave = async (): Promise<void> => {
+  if (!pendingSave) return;
+  const { input, timer } = pendingSave;
+  clearTimeout(timer);
+  pendingSave = null;
+  await saveLibraryEntry(input).catch(err => console.error("Error saving to library:", err));
+};
+
+// Only the latest input per entry is written; another entry's pending changes are written first.
+export const scheduleLibrarySave = (input: LibraryEntryInput) => {
+  if (pendingSave && pendingSave.input.id !== input.id) flushLibrarySave();
+  if (pendingSave) clearTimeout(pendingSave.timer);
+  pendingSave = { input, timer: setTimeout(flushLibrarySave, SAVE_DELAY_MS) };
+};
+
+export const cancelLibrarySave = (id: string) => {
+  if (pendingSave?.input.id !== id) return;
+  clearTimeout(pendingSave.timer);
+  pendingSave = null;
+};
+
+export const renameLibraryEntry = async (id: string, title: string): Promise<LibraryEntry | undefined> => {
+  const existing = await getLibraryEntry(id);
+  if (!existing) return undefined;
+  const entry: LibraryEntry = {
+    ...existing,
+    title,
+    scenario: { ...existing.scenario, title },
+    updatedAt: Date.now()
+  };
+  await putRecord('library', entry);
+  return entry;
+};
+
+export const deleteLibraryEntry = (id: string): Promise<void> => {
+  return deleteRecord('library', id);
+};
+
+export const searchLibraryEntries = (entries: LibraryEntry[], query: string, topics: TopicDefinition[]): LibraryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return entries;
+  return entries.filter(entry => {
+    const haystack = `${entry.title} ${getTopicName(topics, entry.topic)} ${entry.level} ${entry.duration}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
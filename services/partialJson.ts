@@ -0,0 +1,53 @@
+
+// Readers for a JSON object that is still streaming in. They only return
+// values whose closing quote or brace has already arrived.
+
+export const readStringField = (text: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`).exec(text);
+  if (!match) return undefined;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// The finished object elements of the array under `key`.
+export const readCompleteItems = (text: string, key: string): unknown[] => {
+  const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!match) return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      // A closing bracket at depth 0 ends the array itself.
+      if (depth === 0) break;
+      depth--;
+      if (depth === 0) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch (e) {
+          // Skip anything malformed; the full response is validated later.
+        }
+      }
+    }
+  }
+  return items;
+};
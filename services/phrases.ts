@@ -0,0 +1,39 @@
+
+// Helpers for multi-word expressions in dialogue text. Turns are rendered as
+// words split on single spaces, so positions here are indexes into that split.
+
+export const MAX_PHRASE_WORDS = 8;
+
+export interface PhraseSpan {
+  phrase: string;
+  // First and last word index covered, inclusive.
+  start: number;
+  end: number;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}'’-]/gu, '').replace(/’/g, "'");
+
+// Trims surrounding punctuation and spacing from a selected span, keeping inner hyphens and apostrophes.
+export const cleanPhrase = (text: string) => text.trim().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').replace(/\s+/g, ' ');
+
+// Every non-overlapping occurrence of each phrase in `text`, longest phrases first.
+export const findPhraseSpans = (text: string, phrases: string[]): PhraseSpan[] => {
+  const words = text.split(' ').map(normalizeWord);
+  const taken = new Set<number>();
+  const spans: PhraseSpan[] = [];
+
+  [...phrases]
+    .map(phrase => ({ phrase, parts: phrase.split(/\s+/).map(normalizeWord).filter(Boolean) }))
+    .filter(p => p.parts.length)
+    .sort((a, b) => b.parts.length - a.parts.length)
+    .forEach(({ phrase, parts }) => {
+      for (let i = 0; i + parts.length <= words.length; i++) {
+        const covered = parts.map((_, j) => i + j);
+        if (covered.some(idx => taken.has(idx)) || parts.some((part, j) => words[i + j] !== part)) continue;
+        covered.forEach(idx => taken.add(idx));
+        spans.push({ phrase, start: i, end: i + parts.length - 1 });
+      }
+    });
+
+  return spans.sort((a, b) => a.start - b.start);
+};
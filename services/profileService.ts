@@ -0,0 +1,39 @@
+
+import { LearnerProfile, Seniority } from "../types";
+import { getRecord, putRecord } from "./db";
+import { DEFAULT_TRANSLATION_LANGUAGE } from "./languages";
+
+const PROFILE_KEY = 'profile';
+
+export const SENIORITIES: Seniority[] = ['Junior', 'Mid-level', 'Senior', 'Lead', 'Manager'];
+
+// Matches what the app used to assume for everyone before profiles existed.
+export const DEFAULT_PROFILE: LearnerProfile = {
+  jobTitle: 'Frontend Developer',
+  seniority: 'Junior',
+  techStack: ['React', 'TypeScript'],
+  companyType: 'product company',
+  nativeLanguage: 'Persian',
+  translationLanguage: DEFAULT_TRANSLATION_LANGUAGE,
+  weakAreas: []
+};
+
+export const getProfile = async (): Promise<LearnerProfile> => {
+  const record = await getRecord<{ id: string; profile: LearnerProfile }>('settings', PROFILE_KEY);
+  return { ...DEFAULT_PROFILE, ...record?.profile };
+};
+
+export const saveProfile = async (profile: LearnerProfile): Promise<LearnerProfile> => {
+  await putRecord('settings', { id: PROFILE_KEY, profile });
+  return profile;
+};
+
+// One-paragraph summary of the learner that every prompt includes.
+export const describeProfile = (profile: LearnerProfile): string => {
+  const parts = [`The learner is a ${profile.seniority} ${profile.jobTitle}`];
+  if (profile.companyType) parts[0] += ` aiming to work at a ${profile.companyType}`;
+  if (profile.techStack.length) parts.push(`Their day-to-day tools and skills: ${profile.techStack.join(', ')}`);
+  if (profile.nativeLanguage) parts.push(`Their native language is ${profile.nativeLanguage}`);
+  if (profile.weakAreas.length) parts.push(`They want extra practice with: ${profile.weakAreas.join(', ')}`);
+  return parts.join('. ') + '.';
+};
@@ -0,0 +1,444 @@
+
+import { GoogleGenAI, Type, Modality, Content, FinishReason, GenerateContentResponse } from "@google/genai";
+import { Scenario, VocabularyItem, Level, Duration, SynthesizedAudio, Voice, ChoiceQuestion, LearnerProfile, InterviewSource, TopicDefinition, DraftScenario, AudioChunk, AnswerFeedback } from "../../types";
+import { decodeBase64, encodeBase64, createOrderedPcmChunker } from "../audio";
+import { AIConfig } from "../config";
+import { MalformedOutputError, ProviderError } from "../errors";
+import { withRetry, throwIfCancelled } from "../retry";
+import { describeProfile } from "../profileService";
+import { getLanguage } from "../languages";
+import { BUILT_IN_TOPICS, INTERVIEW_TOPIC_ID, findTopic, renderTopicInstructions } from "../topicService";
+import { parseJson, readDraftScenario, validateScenario, validateVocabularyItem, validateQuizQuestions, validateAnswerFeedback, ValidationResult, ScenarioRules, VOICES, MIN_PARTICIPANTS, CEFR_LEVELS } from "../validation";
+import { AIProvider } from "./types";
+
+const MAX_REPAIR_ATTEMPTS = 2;
+const TTS_CONCURRENCY = 4;
+// Keeps very long pastes from crowding the instructions out of the prompt.
+const MAX_SOURCE_CHARS = 12000;
+
+const LEVEL_INSTRUCTIONS: Record<Level, string> = {
+  'Beginner': 'Use basic vocabulary and simple sentence structures. Avoid all complex metaphors.',
+  'Intermediate': 'Use a mix of professional terminology and standard social idioms.',
+  'Advanced': 'Use complex reasoning, professional leadership language, and nuanced cultural expressions.'
+};
+
+const LENGTH_INSTRUCTIONS: Record<Duration, string> = {
+  '1m': 'Generate approximately 6-8 dialogue turns (about 150 words total).',
+  '3m': 'Generate a lengthy, detailed dialogue with at least 15-20 turns. Each turn should have 2-3 sentences. Aim for roughly 500 words.',
+  '5m': 'Generate a very long and immersive dialogue with at least 30-35 turns. Provide depth and detail in the conversation. Aim for roughly 800+ words.'
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+// A blocked request comes back as an empty reply rather than an error.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const reason = response.promptFeedback?.blockReason
+    || (BLOCKED_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason) ? response.candidates?.[0]?.finishReason : undefined);
+  if (reason) throw new ProviderError('safety', `Response blocked by safety filters (${reason}).`);
+};
+
+const participantInstructions = (maxParticipants: number) => maxParticipants <= MIN_PARTICIPANTS
+  ? `Use exactly ${MIN_PARTICIPANTS} participants with different voices.`
+  : `Use between ${MIN_PARTICIPANTS} and ${maxParticipants} participants, as many as the situation really has, each with a different voice.`;
+
+const LEXICON_PROPERTIES = {
+  word: { type: Type.STRING },
+  partOfSpeech: { type: Type.STRING },
+  englishMeaning: { type: Type.STRING },
+  translation: { type: Type.STRING },
+  register: { type: Type.STRING, enum: ['formal', 'neutral', 'informal'] },
+  alternatives: { type: Type.ARRAY, items: { type: Type.STRING } },
+  ipa: { type: Type.STRING },
+  cefr: { type: Type.STRING, enum: CEFR_LEVELS },
+  examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+  synonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
+  collocations: { type: Type.ARRAY, items: { type: Type.STRING } }
+};
+
+const LEXICON_REQUIRED = ['word', 'partOfSpeech', 'englishMeaning', 'translation', 'ipa', 'cefr', 'examples', 'synonyms', 'collocations'];
+
+const LEXICON_INSTRUCTIONS = `For every vocabulary and idiom entry also give "ipa" (General American, without slashes), its "cefr" level (A1-C2),
+      2-3 "examples" of natural workplace sentences that use it, a few "synonyms", and the "collocations" it most commonly appears in.`;
+
+const IDIOM_INSTRUCTIONS = `List in "idioms" every idiom, phrasal verb and fixed collocation the dialogue uses (for example "circle back", "on the same page", "take ownership of").
+      Copy each one into "word" exactly as it is written in the turn, give "partOfSpeech" as idiom, phrasal verb or collocation, its "register" (formal, neutral or informal), and 2-3 "alternatives" that say the same thing, including one in a different register where possible.`;
+
+const SCENARIO_REQUEST_CONFIG = {
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      context: { type: Type.STRING },
+      participants: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            role: { type: Type.STRING },
+            voice: { type: Type.STRING, enum: VOICES }
+          },
+          required: ['name', 'role', 'voice']
+        }
+      },
+      dialogue: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            speaker: { type: Type.STRING },
+            text: { type: Type.STRING },
+            translation: { type: Type.STRING },
+            role: { type: Type.STRING }
+          },
+          required: ['speaker', 'text', 'translation', 'role']
+        }
+      },
+      vocabulary: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: LEXICON_PROPERTIES,
+          required: LEXICON_REQUIRED
+        }
+      },
+      idioms: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: LEXICON_PROPERTIES,
+          required: [...LEXICON_REQUIRED, 'register', 'alternatives']
+        }
+      }
+    },
+    required: ['title', 'context', 'participants', 'dialogue', 'vocabulary', 'idioms'],
+    // Dialogue streams before vocabulary so turns can be shown as they arrive.
+    propertyOrdering: ['title', 'context', 'participants', 'dialogue', 'vocabulary', 'idioms']
+  }
+};
+
+export const createGeminiProvider = (config: AIConfig): AIProvider => {
+  // Checked before any request so a missing key isn't reported as a failed call.
+  const getClient = () => {
+    if (!config.apiKey) {
+      throw new ProviderError('auth', 'No Gemini API key is configured. Set GEMINI_API_KEY in .env.local, or set AI_PROVIDER=mock to practise offline.');
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  // With `onText`, the reply is streamed and `onText` sees the text so far after every chunk.
+  // A retried stream starts over, so `onText` may see the text shrink.
+  const requestText = async (contents: Content[], requestConfig: Record<string, unknown>, signal?: AbortSignal, onText?: (text: string) => void): Promise<string> => {
+    const ai = getClient();
+    const params = { model: config.textModel, contents, config: { ...requestConfig, abortSignal: signal } };
+    return withRetry(async () => {
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        assertNotBlocked(response);
+        return response.text || '';
+      }
+      const stream = await ai.models.generateContentStream(params);
+      let text = '';
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        text += chunk.text || '';
+        onText(text);
+      }
+      return text;
+    }, signal);
+  };
+
+  // Sends the prompt, validates the JSON reply, and when it can't be repaired
+  // locally, asks the model to correct the specific problems it made.
+  const generateValidated = async <T,>(
+    target: MalformedOutputError['target'],
+    prompt: string,
+    requestConfig: Record<string, unknown>,
+    validate: (raw: unknown) => ValidationResult<T>,
+    signal?: AbortSignal,
+    onText?: (text: string) => void
+  ): Promise<T> => {
+    const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const responseText = await requestText(contents, requestConfig, signal, onText);
+
+      const parsed = parseJson(responseText);
+      const result = parsed.error ? { value: null, repairs: [], errors: [parsed.error] } : validate(parsed.data);
+      if (result.value) return result.value;
+
+      errors = result.errors;
+      contents.push(
+        { role: 'model', parts: [{ text: responseText }] },
+        { role: 'user', parts: [{ text: `Your previous response was invalid:\n- ${errors.join('\n- ')}\nReturn the complete corrected JSON only.` }] }
+      );
+    }
+
+    throw new MalformedOutputError(target, errors);
+  };
+
+  // Shared by every prompt that produces a full dialogue.
+  const requestScenario = async (prompt: string, rules: ScenarioRules, signal?: AbortSignal, onDraft?: (draft: DraftScenario) => void): Promise<Scenario> => {
+    const scenarioData = await generateValidated(
+      'scenario',
+      prompt,
+      SCENARIO_REQUEST_CONFIG,
+      raw => validateScenario(raw, rules),
+      signal,
+      onDraft && (text => onDraft(readDraftScenario(text, rules.lang)))
+    );
+    return {
+      ...scenarioData,
+      id: Math.random().toString(36).substr(2, 9)
+    };
+  };
+
+  const generateScenario = async (level: Level, topic: TopicDefinition, duration: Duration, profile: LearnerProfile, onDraft?: (draft: DraftScenario) => void, signal?: AbortSignal): Promise<Scenario> => {
+    const prompt = `
+      Create an English learning dialogue for a ${level} level student.
+      ${LEVEL_INSTRUCTIONS[level]}
+      Topic: ${topic.name}. ${renderTopicInstructions(topic, profile)}
+      ${LENGTH_INSTRUCTIONS[duration]}
+      
+      ${describeProfile(profile)}
+      When the topic is work related, draw technical details and vocabulary from their field. Give them natural chances to use the language they want to practice.
+      
+      CRITICAL: 
+      1. For every English turn, provide a natural ${getLanguage(profile.translationLanguage).name} translation in "translation". Vocabulary "translation" uses the same language.
+      2. Follow the topic instructions strictly; never drift into a different setting.
+      3. Ensure the dialogue feels like a real conversation, not just a list of facts.
+      4. ${participantInstructions(topic.maxParticipants)} Every turn's "speaker" must be exactly one participant's "name".
+      5. Every turn's "role" must be one of: ${topic.roles.join(', ')}. Several participants may share a role.
+      6. ${IDIOM_INSTRUCTIONS}
+      7. ${LEXICON_INSTRUCTIONS}
+      
+      Response format: JSON ONLY.
+    `;
+
+    return requestScenario(prompt, { roles: topic.roles, lang: profile.translationLanguage, maxParticipants: topic.maxParticipants }, signal, onDraft);
+  };
+
+  const generateTailoredInterview = async (level: Level, duration: Duration, source: InterviewSource, profile: LearnerProfile, onDraft?: (draft: DraftScenario) => void, signal?: AbortSignal): Promise<Scenario> => {
+    const interviewTopic = findTopic(BUILT_IN_TOPICS, INTERVIEW_TOPIC_ID);
+    const cv = source.cv?.trim();
+    const cvSection = cv ? `CANDIDATE CV:\n"""\n${cv.slice(0, MAX_SOURCE_CHARS)}\n"""` : 'No CV was provided.';
+    const prompt = `
+      Create an English learning dialogue for a ${level} level student: a realistic mock interview for the job posting below.
+      ${LEVEL_INSTRUCTIONS[level]}
+      ${LENGTH_INSTRUCTIONS[duration]}
+
+      ${describeProfile(profile)}
+
+      JOB POSTING:
+      """
+      ${source.jobDescription.slice(0, MAX_SOURCE_CHARS)}
+      """
+
+      ${cvSection}
+
+      CRITICAL:
+      1. The interviewer's questions MUST come from the posting's stated requirements and responsibilities, in the order an interviewer would raise them.
+      2. The candidate gives strong model answers. ${cv ? 'Ground every answer in real experience from the CV; never invent employers, projects or results that are not in it.' : 'Ground answers in the learner profile above and keep claims plausible for their seniority.'}
+      3. The vocabulary list MUST be taken from words and phrases that appear in the job posting.
+      4. Use the company and role names from the posting in the title and context.
+      5. For every English turn, provide a natural ${getLanguage(profile.translationLanguage).name} translation in "translation". Vocabulary "translation" uses the same language.
+      6. ${participantInstructions(interviewTopic.maxParticipants)} Every turn's "speaker" must be exactly one participant's "name".
+      7. Every turn's "role" must be one of: ${interviewTopic.roles.join(', ')}.
+      8. ${IDIOM_INSTRUCTIONS}
+      9. ${LEXICON_INSTRUCTIONS}
+
+      Response format: JSON ONLY.
+    `;
+
+    const scenario = await requestScenario(prompt, { roles: interviewTopic.roles, lang: profile.translationLanguage, maxParticipants: interviewTopic.maxParticipants }, signal, onDraft);
+    return { ...scenario, interviewSource: source };
+  };
+
+  const getWordDefinition = async (word: string, context: string, profile: LearnerProfile, signal?: AbortSignal): Promise<VocabularyItem> => {
+    const prompt = `Define the ${word.includes(' ') ? 'phrase' : 'word'} "${word}" used in this context: "${context}". 
+    ${describeProfile(profile)}
+    Provide the part of speech, a clear English meaning pitched at their field, and a natural ${getLanguage(profile.translationLanguage).name} translation of the meaning in "translation".
+    If it is an idiom, phrasal verb or multi-word phrase, use idiom, phrasal verb, collocation or phrase as the part of speech, and also give its "register" (formal, neutral or informal) and 2-3 "alternatives" that say the same thing.
+    Also give "ipa" (General American, without slashes), its "cefr" level (A1-C2), 2-3 "examples" of natural sentences that use it in their field, a few "synonyms", and the "collocations" it most commonly appears in.
+    Format as JSON.`;
+
+    return generateValidated('definition', prompt, {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: LEXICON_PROPERTIES,
+        required: LEXICON_REQUIRED
+      }
+    }, raw => validateVocabularyItem(raw, profile.translationLanguage), signal);
+  };
+
+  const synthesizeTurn = async (text: string, voice: Voice, pacingInstruction: string, signal?: AbortSignal): Promise<Uint8Array> => {
+    const ai = getClient();
+    const response = await withRetry(() => ai.models.generateContent({
+      model: config.ttsModel,
+      contents: [{ parts: [{ text: `${pacingInstruction}\n\nSay the following line:\n\n${text}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice }
+          }
+        },
+        abortSignal: signal
+      }
+    }), signal);
+    assertNotBlocked(response);
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("Audio generation failed");
+    return decodeBase64(base64Audio);
+  };
+
+  // Each turn is synthesized on its own so the exact offset of every line in
+  // the final track is known, rather than guessed from text length.
+  const generateAudio = async (scenario: Scenario, slowMode: boolean = false, onChunk?: (chunk: AudioChunk) => void, signal?: AbortSignal): Promise<SynthesizedAudio> => {
+    const pacingInstruction = slowMode 
+      ? "Speak extremely slowly and clearly. Pause slightly between words. This is for a beginner student." 
+      : "Speak at a natural, conversational pace.";
+
+    const chunker = createOrderedPcmChunker(scenario.dialogue.length, onChunk);
+    // Once one turn fails the whole track is lost, so the other workers stop too.
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    signal?.addEventListener('abort', stop);
+    let next = 0;
+    const worker = async () => {
+      try {
+        while (next < scenario.dialogue.length) {
+          throwIfCancelled(controller.signal);
+          const idx = next++;
+          const turn = scenario.dialogue[idx];
+          const voice = scenario.participants.find(p => p.name === turn.speaker)?.voice || VOICES[0];
+          chunker.add(idx, await synthesizeTurn(turn.text, voice, pacingInstruction, controller.signal));
+        }
+      } catch (err) {
+        stop();
+        throw err;
+      }
+    };
+    try {
+      if (signal?.aborted) stop();
+      await Promise.all(Array.from({ length: Math.min(TTS_CONCURRENCY, scenario.dialogue.length) }, worker));
+    } finally {
+      signal?.removeEventListener('abort', stop);
+    }
+
+    const { pcm, timings } = chunker.finish();
+    return { data: encodeBase64(pcm), timings };
+  };
+
+  const generatePronunciation = async (text: string, signal?: AbortSignal): Promise<string> => {
+    const pcm = await synthesizeTurn(text, VOICES[0], 'Pronounce this word or phrase once, clearly and at a natural pace, with no other words.', signal);
+    return encodeBase64(pcm);
+  };
+
+  const evaluateAnswer = async (question: string, modelAnswer: string, answer: string, profile: LearnerProfile, signal?: AbortSignal): Promise<AnswerFeedback> => {
+    const prompt = `
+      You are an interview coach helping an English learner practise answering interview questions in writing.
+      ${describeProfile(profile)}
+
+      The interviewer asked: "${question}"
+      A strong model answer: "${modelAnswer}"
+
+      The learner wrote:
+      """
+      ${answer.slice(0, MAX_SOURCE_CHARS)}
+      """
+
+      Evaluate the learner's answer on its own merits; it does not need to match the model answer's content.
+      - "correctedAnswer": the learner's answer with only grammar, spelling and word-choice mistakes fixed. Keep everything else exactly as they wrote it; if there are no mistakes, repeat it unchanged.
+      - "rewrite": how a fluent professional would give the same answer, keeping the learner's own experience and points.
+      - "structure": if the question is behavioral (it asks about a past situation, e.g. "Tell me about a time..."), "framework" is "STAR" and "missing" lists whichever of Situation, Task, Action and Result the answer lacks. Otherwise "framework" is "general" and "missing" lists key points the interviewer expects but did not get. "comment" explains this in one or two sentences.
+      - "scores": 1 (poor) to 5 (excellent) for grammar, vocabulary, relevance (does it answer what was asked) and structure.
+      - "summary": one encouraging sentence naming the single most useful thing to improve.
+
+      Response format: JSON ONLY.
+    `;
+
+    return generateValidated('feedback', prompt, {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          correctedAnswer: { type: Type.STRING },
+          rewrite: { type: Type.STRING },
+          structure: {
+            type: Type.OBJECT,
+            properties: {
+              framework: { type: Type.STRING, enum: ['STAR', 'general'] },
+              comment: { type: Type.STRING },
+              missing: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ['framework', 'comment', 'missing']
+          },
+          scores: {
+            type: Type.OBJECT,
+            properties: {
+              grammar: { type: Type.INTEGER },
+              vocabulary: { type: Type.INTEGER },
+              relevance: { type: Type.INTEGER },
+              structure: { type: Type.INTEGER }
+            },
+            required: ['grammar', 'vocabulary', 'relevance', 'structure']
+          },
+          summary: { type: Type.STRING }
+        },
+        required: ['correctedAnswer', 'rewrite', 'structure', 'scores', 'summary']
+      }
+    }, validateAnswerFeedback, signal);
+  };
+
+  const generateQuizQuestions = async (scenario: Scenario, profile: LearnerProfile, signal?: AbortSignal): Promise<ChoiceQuestion[]> => {
+    const numberedDialogue = scenario.dialogue
+      .map((turn, idx) => `[${idx}] ${turn.speaker}: ${turn.text}`)
+      .join('\n');
+
+    const prompt = `
+      Write a comprehension quiz for an English learner who just listened to this dialogue.
+      ${describeProfile(profile)}
+      Title: ${scenario.title}
+      Context: ${scenario.context}
+
+      ${numberedDialogue}
+
+      Create 4 questions of kind "content" that check understanding of what was said or decided,
+      and 3 questions of kind "vocabulary" that ask what a word or phrase means as it is used in a specific turn.
+      Each question has 4 plausible options, exactly one correct, and "turnIndex" is the [number] of the turn that contains the answer.
+
+      Response format: JSON ONLY.
+    `;
+
+    return generateValidated('quiz', prompt, {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          questions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                kind: { type: Type.STRING, enum: ['content', 'vocabulary'] },
+                prompt: { type: Type.STRING },
+                options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                answerIndex: { type: Type.INTEGER },
+                turnIndex: { type: Type.INTEGER }
+              },
+              required: ['kind', 'prompt', 'options', 'answerIndex', 'turnIndex']
+            }
+          }
+        },
+        required: ['questions']
+      }
+    }, raw => validateQuizQuestions(raw, scenario.dialogue.length), signal);
+  };
+
+  return { generateScenario, generateTailoredInterview, getWordDefinition, generateAudio, generatePronunciation, evaluateAnswer, generateQuizQuestions };
+};
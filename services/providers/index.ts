@@ -0,0 +1,16 @@
+
+import { aiConfig } from "../config";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { AIProvider } from "./types";
+
+export type { AIProvider } from "./types";
+
+let provider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!provider) {
+    provider = aiConfig.provider === 'mock' ? createMockProvider() : createGeminiProvider(aiConfig);
+  }
+  return provider;
+};
@@ -0,0 +1,78 @@
+
+import { Scenario, TopicId } from "../../types";
+
+export const MOCK_SCENARIOS: Record<TopicId, Omit<Scenario, 'id'>> = {
+  'Job Interview': {
+    title: 'Frontend Lead Interview',
+    context: 'Sara is interviewing Ali for a Frontend Lead position at a product company.',
+    participants: [
+      { name: 'Sara', role: 'interviewer', voice: 'Kore' },
+      { name: 'Ali', role: 'candidate', voice: 'Puck' }
+    ],
+    dialogue: [
+      { speaker: 'Sara', role: 'interviewer', text: 'Thanks for coming in today. Could you tell me a little about your current role?', translation: { lang: 'fa', text: 'ممنون که امروز آمدید. می‌توانید کمی درباره نقش فعلی‌تان بگویید؟' } },
+      { speaker: 'Ali', role: 'candidate', text: 'Sure. I lead a team of four developers building a React dashboard for our customers.', translation: { lang: 'fa', text: 'حتماً. من یک تیم چهار نفره از توسعه‌دهندگان را رهبری می‌کنم که یک داشبورد ری‌اکت برای مشتریان می‌سازند.' } },
+      { speaker: 'Sara', role: 'interviewer', text: 'How do you make sure the code stays maintainable as the team grows?', translation: { lang: 'fa', text: 'چطور مطمئن می‌شوید که کد با بزرگ شدن تیم قابل نگهداری باقی بماند؟' } },
+      { speaker: 'Ali', role: 'candidate', text: 'We agree on conventions early, review every pull request, and keep shared components well documented.', translation: { lang: 'fa', text: 'ما از ابتدا روی قراردادها توافق می‌کنیم، هر درخواست ادغام را بازبینی می‌کنیم و کامپوننت‌های مشترک را به خوبی مستند می‌کنیم.' } },
+      { speaker: 'Sara', role: 'interviewer', text: 'Tell me about a time you disagreed with a teammate.', translation: { lang: 'fa', text: 'از زمانی بگویید که با یکی از هم‌تیمی‌هایتان مخالف بودید.' } },
+      { speaker: 'Ali', role: 'candidate', text: 'We disagreed about state management, so we built two small prototypes and let the data decide.', translation: { lang: 'fa', text: 'درباره مدیریت وضعیت اختلاف نظر داشتیم، پس دو نمونه کوچک ساختیم و گذاشتیم داده‌ها تصمیم بگیرند.' } }
+    ],
+    vocabulary: [
+      { word: 'maintainable', partOfSpeech: 'adjective', englishMeaning: 'Easy to keep in good working order and to change over time.', translation: { lang: 'fa', text: 'قابل نگهداری' }, ipa: 'meɪnˈteɪnəbəl', cefr: 'B2', examples: ['Small, well-named functions keep the codebase maintainable.'], synonyms: ['manageable', 'sustainable'] },
+      { word: 'conventions', partOfSpeech: 'noun', englishMeaning: 'Agreed rules or standard ways of doing something.', translation: { lang: 'fa', text: 'قراردادها' }, ipa: 'kənˈvɛnʃənz', cefr: 'B2', examples: ['Our naming conventions are listed in the team wiki.'], synonyms: ['standards', 'norms'] },
+      { word: 'prototype', partOfSpeech: 'noun', englishMeaning: 'An early, simple version of something used to test an idea.', translation: { lang: 'fa', text: 'نمونه اولیه' }, ipa: 'ˈproʊtəˌtaɪp', cefr: 'B2', examples: ['We built a quick prototype to test the new layout.'], synonyms: ['mock-up', 'proof of concept'] }
+    ],
+    idioms: [
+      { word: 'coming in', partOfSpeech: 'phrasal verb', englishMeaning: 'Visiting an office or workplace, usually for a meeting.', translation: { lang: 'fa', text: 'آمدن (به محل کار)' }, register: 'neutral', alternatives: ['visiting us', 'joining us today'] },
+      { word: 'let the data decide', partOfSpeech: 'idiom', englishMeaning: 'To settle a disagreement by measuring results instead of arguing.', translation: { lang: 'fa', text: 'گذاشتن که داده‌ها تصمیم بگیرند' }, register: 'informal', alternatives: ['base the decision on evidence', 'make a data-driven decision'] }
+    ]
+  },
+  'Work Daily': {
+    title: 'Sprint Planning Check-in',
+    context: 'Reza, the engineering manager, is planning the next sprint with Neda, a frontend developer, and Sina from QA.',
+    participants: [
+      { name: 'Reza', role: 'manager', voice: 'Puck' },
+      { name: 'Neda', role: 'peer', voice: 'Kore' },
+      { name: 'Sina', role: 'peer', voice: 'Charon' }
+    ],
+    dialogue: [
+      { speaker: 'Reza', role: 'manager', text: 'Morning Neda. Do you have capacity for the checkout redesign this sprint?', translation: { lang: 'fa', text: 'صبح بخیر ندا. در این اسپرینت برای طراحی مجدد صفحه پرداخت ظرفیت داری؟' } },
+      { speaker: 'Neda', role: 'peer', text: 'I think so, but the payment bug from last week is still blocking me.', translation: { lang: 'fa', text: 'فکر می‌کنم بله، ولی باگ پرداخت هفته گذشته هنوز کارم را متوقف کرده است.' } },
+      { speaker: 'Sina', role: 'peer', text: 'I can reproduce that bug in staging, so I will share the steps with you.', translation: { lang: 'fa', text: 'من می‌توانم آن باگ را در محیط استیجینگ بازتولید کنم، پس مراحلش را با تو به اشتراک می‌گذارم.' } },
+      { speaker: 'Reza', role: 'manager', text: 'Let us prioritize the bug first and estimate the redesign afterwards.', translation: { lang: 'fa', text: 'بیا اول باگ را در اولویت قرار دهیم و بعد طراحی مجدد را تخمین بزنیم.' } },
+      { speaker: 'Neda', role: 'peer', text: 'Sounds good. I will pair with the backend team this afternoon.', translation: { lang: 'fa', text: 'خوب است. امروز بعدازظهر با تیم بک‌اند جفت‌برنامه‌نویسی می‌کنم.' } },
+      { speaker: 'Sina', role: 'peer', text: 'Great. I will update the test plan once the fix is merged.', translation: { lang: 'fa', text: 'عالی است. وقتی اصلاحیه ادغام شد، برنامه تست را به‌روز می‌کنم.' } }
+    ],
+    vocabulary: [
+      { word: 'capacity', partOfSpeech: 'noun', englishMeaning: 'The amount of work someone is able to take on.', translation: { lang: 'fa', text: 'ظرفیت' }, ipa: 'kəˈpæsəti', cefr: 'B1', examples: ['I don\'t have the capacity to take on another ticket this week.'], synonyms: ['bandwidth', 'availability'] },
+      { word: 'prioritize', partOfSpeech: 'verb', englishMeaning: 'To decide which task is most important and do it first.', translation: { lang: 'fa', text: 'اولویت‌بندی کردن' }, ipa: 'praɪˈɔrəˌtaɪz', cefr: 'B2', examples: ['Let\'s prioritize the security fixes before the release.'], synonyms: ['put first', 'rank'] },
+      { word: 'estimate', partOfSpeech: 'verb', englishMeaning: 'To roughly calculate how long or how much something will take.', translation: { lang: 'fa', text: 'تخمین زدن' }, ipa: 'ˈɛstəˌmeɪt', cefr: 'B1', examples: ['Can you estimate how long the migration will take?'], synonyms: ['gauge', 'size'] }
+    ],
+    idioms: [
+      { word: 'Sounds good', partOfSpeech: 'idiom', englishMeaning: 'A friendly way to agree with a plan.', translation: { lang: 'fa', text: 'خوب است، موافقم' }, register: 'informal', alternatives: ['That works for me', 'I agree with that plan'] },
+      { word: 'pair with', partOfSpeech: 'phrasal verb', englishMeaning: 'To work closely with someone on the same task, often at one computer.', translation: { lang: 'fa', text: 'جفت‌کاری کردن با' }, register: 'neutral', alternatives: ['work alongside', 'collaborate with'] }
+    ]
+  },
+  'Casual': {
+    title: 'Weekend Plans',
+    context: 'Two friends, Mina and Omid, are talking about what they did over the weekend.',
+    participants: [
+      { name: 'Mina', role: 'friend', voice: 'Kore' },
+      { name: 'Omid', role: 'friend', voice: 'Puck' }
+    ],
+    dialogue: [
+      { speaker: 'Mina', role: 'friend', text: 'Hey Omid! How was your weekend?', translation: { lang: 'fa', text: 'سلام امید! آخر هفته‌ات چطور بود؟' } },
+      { speaker: 'Omid', role: 'friend', text: 'It was great. I went hiking in the mountains with my brother.', translation: { lang: 'fa', text: 'عالی بود. با برادرم به کوهپیمایی رفتم.' } },
+      { speaker: 'Mina', role: 'friend', text: 'That sounds lovely. Was the weather nice?', translation: { lang: 'fa', text: 'چقدر خوب. هوا خوب بود؟' } },
+      { speaker: 'Omid', role: 'friend', text: 'A bit chilly in the morning, but the view from the top was worth it.', translation: { lang: 'fa', text: 'صبح کمی سرد بود، ولی منظره از بالا ارزشش را داشت.' } }
+    ],
+    vocabulary: [
+      { word: 'hiking', partOfSpeech: 'noun', englishMeaning: 'The activity of going for long walks in nature.', translation: { lang: 'fa', text: 'کوهپیمایی' }, ipa: 'ˈhaɪkɪŋ', cefr: 'A2', examples: ['We go hiking most weekends in the spring.'], synonyms: ['trekking', 'walking'] },
+      { word: 'chilly', partOfSpeech: 'adjective', englishMeaning: 'Slightly cold in an unpleasant way.', translation: { lang: 'fa', text: 'سرد، خنک' }, ipa: 'ˈtʃɪli', cefr: 'B1', examples: ['Bring a jacket; the office gets chilly in the afternoon.'], synonyms: ['cool', 'cold'] },
+      { word: 'worth it', partOfSpeech: 'phrase', englishMeaning: 'Good enough to justify the effort or cost.', translation: { lang: 'fa', text: 'ارزشش را داشتن' }, ipa: 'ˈwɝθ ɪt', cefr: 'A2', examples: ['The refactor took a week, but it was worth it.'], synonyms: ['worthwhile', 'rewarding'] }
+    ],
+    idioms: [
+      { word: 'went hiking', partOfSpeech: 'collocation', englishMeaning: 'Took a long walk in nature, usually for a day.', translation: { lang: 'fa', text: 'به کوهپیمایی رفتن' }, register: 'neutral', alternatives: ['went for a hike', 'went trekking'] }
+    ]
+  }
+};
@@ -0,0 +1,201 @@
+
+import { Scenario, VocabularyItem, Translation, LanguageCode, Level, Duration, SynthesizedAudio, Voice, ChoiceQuestion, LearnerProfile, InterviewSource, TopicDefinition, DraftScenario, AudioChunk, AnswerFeedback } from "../../types";
+import { encodeBase64, createOrderedPcmChunker, PCM_SAMPLE_RATE } from "../audio";
+import { BUILT_IN_TOPICS, INTERVIEW_TOPIC_ID, findTopic } from "../topicService";
+import { sleep, throwIfCancelled } from "../retry";
+import { getLanguage } from "../languages";
+import { MOCK_SCENARIOS } from "./mockFixtures";
+import { AIProvider } from "./types";
+
+const VOICE_FREQUENCIES: Record<Voice, number> = {
+  'Kore': 220,
+  'Puck': 140,
+  'Charon': 110,
+  'Aoede': 250,
+  'Fenrir': 125,
+  'Leda': 235,
+  'Orus': 155,
+  'Zephyr': 205,
+  'Callirrhoe': 265,
+  'Enceladus': 170,
+  'Despina': 190,
+  'Iapetus': 95
+};
+
+const WORD_SECONDS = 0.32;
+const SLOW_WORD_SECONDS = 0.55;
+
+// Pause between streamed turns, so progressive rendering can be seen offline.
+const STREAM_STEP_MS = 150;
+
+// Renders each word as a short enveloped tone so playback and seeking have
+// something audible to work with when no TTS backend is available.
+export const synthesizeMockTurn = (text: string, frequency: number, slowMode: boolean): Uint8Array => {
+  const wordSamples = Math.round((slowMode ? SLOW_WORD_SECONDS : WORD_SECONDS) * PCM_SAMPLE_RATE);
+  const toneSamples = Math.round(wordSamples * 0.8);
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const samples = new Int16Array(words * wordSamples);
+
+  for (let w = 0; w < words; w++) {
+    const start = w * wordSamples;
+    for (let i = 0; i < toneSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / toneSamples);
+      const value = Math.sin((2 * Math.PI * frequency * i) / PCM_SAMPLE_RATE) * envelope * 0.3;
+      samples[start + i] = Math.round(value * 32767);
+    }
+  }
+
+  return new Uint8Array(samples.buffer);
+};
+
+// Fixtures are only written in Persian; other languages get a labelled stand-in so
+// their direction and fonts can still be checked offline.
+const localize = (translation: Translation, english: string, lang: LanguageCode): Translation =>
+  translation.lang === lang ? translation : { lang, text: `${getLanguage(lang).name} (offline): ${english}` };
+
+const localizeItem = (item: VocabularyItem, lang: LanguageCode): VocabularyItem =>
+  ({ ...item, translation: localize(item.translation, item.word, lang) });
+
+const localizeScenario = (scenario: Scenario, lang: LanguageCode): Scenario => ({
+  ...scenario,
+  dialogue: scenario.dialogue.map(t => ({ ...t, translation: localize(t.translation, t.text, lang) })),
+  vocabulary: scenario.vocabulary.map(v => localizeItem(v, lang)),
+  idioms: scenario.idioms.map(v => localizeItem(v, lang))
+});
+
+const streamDraft = async (scenario: Scenario, onDraft: (draft: DraftScenario) => void, signal?: AbortSignal) => {
+  const { title, context, participants, dialogue } = scenario;
+  for (let i = 1; i <= dialogue.length; i++) {
+    onDraft({ title, context, participants, dialogue: dialogue.slice(0, i) });
+    await sleep(STREAM_STEP_MS, signal);
+  }
+};
+
+export const createMockProvider = (): AIProvider => {
+  const buildScenario = (level: Level, topic: TopicDefinition, duration: Duration): Scenario => {
+    const id = `mock-${topic.id.toLowerCase().replace(/\s+/g, '-')}-${level.toLowerCase()}-${duration}`;
+    if (MOCK_SCENARIOS[topic.id]) return { ...structuredClone(MOCK_SCENARIOS[topic.id]), id };
+
+    // User topics have no fixture of their own, so they borrow the workplace one with the topic's roles.
+    const fixture = structuredClone(MOCK_SCENARIOS['Work Daily']);
+    const participants = fixture.participants.slice(0, topic.maxParticipants);
+    const roleFor = (speaker: string) => topic.roles[Math.max(0, participants.findIndex(p => p.name === speaker)) % topic.roles.length];
+    return {
+      ...fixture,
+      id,
+      title: topic.name,
+      participants: participants.map(p => ({ ...p, role: roleFor(p.name) })),
+      dialogue: fixture.dialogue
+        .filter(t => participants.some(p => p.name === t.speaker))
+        .map(t => ({ ...t, role: roleFor(t.speaker) }))
+    };
+  };
+
+  const generateScenario = async (level: Level, topic: TopicDefinition, duration: Duration, profile: LearnerProfile, onDraft?: (draft: DraftScenario) => void, signal?: AbortSignal): Promise<Scenario> => {
+    throwIfCancelled(signal);
+    const scenario = localizeScenario(buildScenario(level, topic, duration), profile.translationLanguage);
+    if (onDraft) await streamDraft(scenario, onDraft, signal);
+    return scenario;
+  };
+
+  const generateTailoredInterview = async (level: Level, duration: Duration, source: InterviewSource, profile: LearnerProfile, onDraft?: (draft: DraftScenario) => void, signal?: AbortSignal): Promise<Scenario> => {
+    const scenario = await generateScenario(level, findTopic(BUILT_IN_TOPICS, INTERVIEW_TOPIC_ID), duration, profile, onDraft, signal);
+    return { ...scenario, id: `${scenario.id}-tailored`, interviewSource: source };
+  };
+
+  const getWordDefinition = async (word: string, _context: string, profile: LearnerProfile, signal?: AbortSignal): Promise<VocabularyItem> => {
+    throwIfCancelled(signal);
+    const known = Object.values(MOCK_SCENARIOS)
+      .flatMap(s => [...s.vocabulary, ...s.idioms])
+      .find(v => v.word.toLowerCase() === word.toLowerCase());
+    if (known) return localizeItem(known, profile.translationLanguage);
+    return localizeItem({
+      word,
+      partOfSpeech: word.includes(' ') ? 'phrase' : 'unknown',
+      englishMeaning: `Offline definition for "${word}".`,
+      translation: { lang: 'fa', text: `تعریف آفلاین برای «${word}»` }
+    }, profile.translationLanguage);
+  };
+
+  const generateAudio = async (scenario: Scenario, slowMode: boolean = false, onChunk?: (chunk: AudioChunk) => void, signal?: AbortSignal): Promise<SynthesizedAudio> => {
+    const chunker = createOrderedPcmChunker(scenario.dialogue.length, onChunk);
+    for (let idx = 0; idx < scenario.dialogue.length; idx++) {
+      throwIfCancelled(signal);
+      const turn = scenario.dialogue[idx];
+      const participant = scenario.participants.find(p => p.name === turn.speaker);
+      chunker.add(idx, synthesizeMockTurn(turn.text, VOICE_FREQUENCIES[participant?.voice || 'Kore'], slowMode));
+      if (onChunk) await sleep(STREAM_STEP_MS, signal);
+    }
+    const { pcm, timings } = chunker.finish();
+    return { data: encodeBase64(pcm), timings };
+  };
+
+  const generatePronunciation = async (text: string, signal?: AbortSignal): Promise<string> => {
+    throwIfCancelled(signal);
+    return encodeBase64(synthesizeMockTurn(text, VOICE_FREQUENCIES['Kore'], false));
+  };
+
+  // Offline feedback only tidies capitalization and punctuation and checks for STAR keywords.
+  const evaluateAnswer = async (question: string, modelAnswer: string, answer: string, _profile: LearnerProfile, signal?: AbortSignal): Promise<AnswerFeedback> => {
+    throwIfCancelled(signal);
+    const trimmed = answer.trim().replace(/\s+/g, ' ');
+    const corrected = `${trimmed.charAt(0).toUpperCase()}${trimmed.slice(1)}`.replace(/\bi\b/g, 'I').replace(/([^.!?])$/, '$1.');
+    const isBehavioral = /tell me about a time|describe a situation|give (me )?an example/i.test(question);
+    const starCues: Record<string, RegExp> = {
+      Situation: /\b(when|at my|last year|once|in my previous)\b/i,
+      Task: /\b(needed to|had to|goal|responsible)\b/i,
+      Action: /\b(I (built|led|decided|wrote|talked|proposed|set up))\b/i,
+      Result: /\b(as a result|so that|which meant|reduced|increased|improved)\b/i
+    };
+    const missing = isBehavioral ? Object.keys(starCues).filter(part => !starCues[part].test(trimmed)) : [];
+    const words = trimmed.split(' ').length;
+    const lengthScore = Math.min(5, Math.max(1, Math.round(words / 12)));
+    return {
+      correctedAnswer: corrected,
+      rewrite: modelAnswer,
+      structure: {
+        framework: isBehavioral ? 'STAR' : 'general',
+        comment: missing.length ? `Your answer doesn't clearly cover: ${missing.join(', ')}.` : 'Your answer is clearly organised.',
+        missing
+      },
+      scores: {
+        grammar: corrected === trimmed ? 5 : 4,
+        vocabulary: lengthScore,
+        relevance: lengthScore,
+        structure: Math.max(1, 5 - missing.length)
+      },
+      summary: words < 20 ? 'Try giving a longer answer with a concrete example.' : 'Good detail; compare your wording with the rewrite.'
+    };
+  };
+
+  const generateQuizQuestions = async (scenario: Scenario, _profile: LearnerProfile, signal?: AbortSignal): Promise<ChoiceQuestion[]> => {
+    throwIfCancelled(signal);
+    const fixtures = Object.values(MOCK_SCENARIOS);
+    const contexts = [scenario.context, ...fixtures.map(f => f.context).filter(c => c !== scenario.context)];
+    const questions: ChoiceQuestion[] = [{
+      id: 'content-0',
+      kind: 'content',
+      prompt: 'What is this conversation about?',
+      options: contexts,
+      answerIndex: 0,
+      turnIndex: 0
+    }];
+
+    const meanings = fixtures.flatMap(f => f.vocabulary).map(v => v.englishMeaning);
+    scenario.vocabulary.forEach((item, i) => {
+      const turnIndex = scenario.dialogue.findIndex(t => t.text.toLowerCase().includes(item.word.toLowerCase()));
+      const distractors = meanings.filter(m => m !== item.englishMeaning).slice(i, i + 3);
+      questions.push({
+        id: `vocabulary-${i}`,
+        kind: 'vocabulary',
+        prompt: `What does "${item.word}" mean in this conversation?`,
+        options: [item.englishMeaning, ...distractors],
+        answerIndex: 0,
+        turnIndex: Math.max(turnIndex, 0)
+      });
+    });
+    return questions;
+  };
+
+  return { generateScenario, generateTailoredInterview, getWordDefinition, generateAudio, generatePronunciation, evaluateAnswer, generateQuizQuestions };
+};
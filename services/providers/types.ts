@@ -0,0 +1,20 @@
+
+import { Scenario, VocabularyItem, Level, Duration, SynthesizedAudio, ChoiceQuestion, LearnerProfile, InterviewSource, TopicDefinition, DraftScenario, AudioChunk, AnswerFeedback } from "../../types";
+
+// Every method takes an optional `signal`; aborting it rejects with a 'cancelled' ProviderError.
+export interface AIProvider {
+  // `onDraft` receives the dialogue so far while it is being written.
+  generateScenario: (level: Level, topic: TopicDefinition, duration: Duration, profile: LearnerProfile, onDraft?: (draft: DraftScenario) => void, signal?: AbortSignal) => Promise<Scenario>;
+  // Interview built from a real job posting and, optionally, the learner's CV.
+  generateTailoredInterview: (level: Level, duration: Duration, source: InterviewSource, profile: LearnerProfile, onDraft?: (draft: DraftScenario) => void, signal?: AbortSignal) => Promise<Scenario>;
+  getWordDefinition: (word: string, context: string, profile: LearnerProfile, signal?: AbortSignal) => Promise<VocabularyItem>;
+  // Audio data is base64-encoded 16-bit mono PCM at PCM_SAMPLE_RATE, with one timing per dialogue turn.
+  // `onChunk` receives the track in order as it is synthesized, so playback can start early.
+  generateAudio: (scenario: Scenario, slowMode: boolean, onChunk?: (chunk: AudioChunk) => void, signal?: AbortSignal) => Promise<SynthesizedAudio>;
+  // A single word or phrase spoken on its own, as base64 16-bit mono PCM at PCM_SAMPLE_RATE.
+  generatePronunciation: (text: string, signal?: AbortSignal) => Promise<string>;
+  // Coaching on a learner's written answer to an interview question, compared with the model answer.
+  evaluateAnswer: (question: string, modelAnswer: string, answer: string, profile: LearnerProfile, signal?: AbortSignal) => Promise<AnswerFeedback>;
+  // Content and vocabulary-in-context questions; speaker and ordering questions are built locally.
+  generateQuizQuestions: (scenario: Scenario, profile: LearnerProfile, signal?: AbortSignal) => Promise<ChoiceQuestion[]>;
+}
@@ -0,0 +1,104 @@
+
+import { Scenario, QuizQuestion, ChoiceQuestion, OrderingQuestion, QuizAnswer, QuizResult, LearnerProfile } from "../types";
+import { generateQuizQuestions } from "./geminiService";
+import { getRecordsByIndex, putRecord } from "./db";
+
+const SPEAKER_QUESTION_COUNT = 3;
+const ORDERING_EVENT_COUNT = 4;
+const MAX_EVENT_LENGTH = 110;
+
+export const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const shuffleOptions = (question: ChoiceQuestion): ChoiceQuestion => {
+  const order = shuffle(question.options.map((_, i) => i));
+  return {
+    ...question,
+    options: order.map(i => question.options[i]),
+    answerIndex: order.indexOf(question.answerIndex)
+  };
+};
+
+const truncate = (text: string) => text.length > MAX_EVENT_LENGTH ? `${text.slice(0, MAX_EVENT_LENGTH - 1).trimEnd()}…` : text;
+
+// Picks turns spread evenly across the dialogue so questions cover the whole conversation.
+const spreadTurnIndexes = (scenario: Scenario, count: number): number[] => {
+  const total = scenario.dialogue.length;
+  if (total <= count) return scenario.dialogue.map((_, i) => i);
+  return Array.from({ length: count }, (_, i) => Math.floor(((i + 0.5) * total) / count));
+};
+
+export const buildSpeakerQuestions = (scenario: Scenario): ChoiceQuestion[] => {
+  const names = scenario.participants.map(p => p.name);
+  return spreadTurnIndexes(scenario, SPEAKER_QUESTION_COUNT).map((turnIndex, i) => ({
+    id: `speaker-${i}`,
+    kind: 'speaker',
+    prompt: `Who said: "${truncate(scenario.dialogue[turnIndex].text)}"`,
+    options: names,
+    answerIndex: names.indexOf(scenario.dialogue[turnIndex].speaker),
+    turnIndex
+  }));
+};
+
+export const buildOrderingQuestion = (scenario: Scenario): OrderingQuestion | null => {
+  const turnIndexes = spreadTurnIndexes(scenario, ORDERING_EVENT_COUNT);
+  if (turnIndexes.length < 3) return null;
+  return {
+    id: 'ordering-0',
+    kind: 'ordering',
+    prompt: 'Put these lines in the order they were said.',
+    events: turnIndexes.map(turnIndex => ({ text: truncate(scenario.dialogue[turnIndex].text), turnIndex }))
+  };
+};
+
+export const buildQuiz = async (scenario: Scenario, profile: LearnerProfile, signal?: AbortSignal): Promise<QuizQuestion[]> => {
+  const generated = await generateQuizQuestions(scenario, profile, signal);
+  const ordering = buildOrderingQuestion(scenario);
+  const questions: QuizQuestion[] = [
+    ...generated.filter(q => q.kind === 'content'),
+    ...buildSpeakerQuestions(scenario),
+    ...generated.filter(q => q.kind === 'vocabulary')
+  ].map(shuffleOptions);
+  if (ordering) questions.push(ordering);
+  return questions;
+};
+
+// For ordering questions `response` lists event indexes in the order the learner placed them.
+export const isCorrectAnswer = (question: QuizQuestion, response: number | number[]): boolean => {
+  if (question.kind === 'ordering') {
+    return Array.isArray(response) && response.length === question.events.length && response.every((e, i) => e === i);
+  }
+  return response === question.answerIndex;
+};
+
+// The turn a learner should revisit after getting a question wrong.
+export const getReviewTurn = (question: QuizQuestion, response: number | number[]): number => {
+  if (question.kind !== 'ordering') return question.turnIndex;
+  const placed = Array.isArray(response) ? response : [];
+  const firstWrong = placed.findIndex((e, i) => e !== i);
+  return question.events[firstWrong === -1 ? 0 : placed[firstWrong]].turnIndex;
+};
+
+export const saveQuizResult = async (scenarioId: string, answers: QuizAnswer[]): Promise<QuizResult> => {
+  const result: QuizResult = {
+    id: Math.random().toString(36).substr(2, 9),
+    scenarioId,
+    takenAt: Date.now(),
+    score: answers.filter(a => a.correct).length,
+    total: answers.length,
+    answers
+  };
+  await putRecord('quizResults', result);
+  return result;
+};
+
+export const listQuizResults = async (scenarioId: string): Promise<QuizResult[]> => {
+  const results = await getRecordsByIndex<QuizResult>('quizResults', 'scenarioId', scenarioId);
+  return results.sort((a, b) => b.takenAt - a.takenAt);
+};
@@ -0,0 +1,41 @@
+
+import { createCancelledError, isRetryable } from "./errors";
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+
+// Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createCancelledError();
+};
+
+// Runs `task` again after rate limits and transient failures, waiting
+// 1s, 2s, 4s... with some jitter so parallel requests don't retry in lockstep.
+export const withRetry = async <T,>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await task();
+    } catch (err) {
+      // An aborted fetch surfaces as its own error; report it as a cancellation.
+      throwIfCancelled(signal);
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(err)) throw err;
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,34 @@
+
+import { SrsSchedule } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+
+// Grades follow SM-2: 0-2 is a failed recall, 3 hard, 4 good, 5 easy.
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const createSchedule = (now: number = Date.now()): SrsSchedule => ({
+  easiness: 2.5,
+  interval: 0,
+  repetitions: 0,
+  due: now
+});
+
+export const applyReview = (schedule: SrsSchedule, grade: ReviewGrade, now: number = Date.now()): SrsSchedule => {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    schedule.easiness + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (grade < 3) {
+    // Failed cards restart the sequence and come back within the same session.
+    return { easiness, interval: 0, repetitions: 0, due: now + RELEARN_DELAY_MS, lastReviewed: now };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.interval * easiness);
+  return { easiness, interval, repetitions, due: now + interval * DAY_MS, lastReviewed: now };
+};
+
+export const isDue = (schedule: SrsSchedule, now: number = Date.now()) => schedule.due <= now;
@@ -0,0 +1,208 @@
+
+export const MIN_SPEED = 0.5;
+export const MAX_SPEED = 1.5;
+
+export const TIME_STRETCH_PROCESSOR = 'time-stretch';
+
+// Messages posted to the worklet. Positions are in seconds of the original audio.
+// Audio that is still being generated is loaded incomplete and appended to.
+export type TimeStretchCommand =
+  | { type: 'load'; samples: Float32Array; sampleRate: number; complete: boolean }
+  | { type: 'append'; samples: Float32Array; complete: boolean }
+  | { type: 'play'; position: number; speed: number; session: number }
+  | { type: 'pause' }
+  | { type: 'speed'; speed: number };
+
+// Messages posted back by the worklet while it plays, tagged with the
+// session of the `play` command they belong to.
+export type TimeStretchEvent =
+  | { type: 'position'; position: number; session: number }
+  | { type: 'ended'; session: number };
+
+export interface WsolaStretcher {
+  append: (samples: Float32Array, complete: boolean) => void;
+  seek: (sample: number) => void;
+  setSpeed: (speed: number) => void;
+  // Fills `out` with stretched audio; returns true once complete input is used up.
+  // Catching up with incomplete input plays silence until more is appended.
+  render: (out: Float32Array) => boolean;
+  // Source sample under the next output sample.
+  position: () => number;
+}
+
+// Streaming WSOLA: overlap-adds Hann-windowed frames at a fixed output hop,
+// reading the input at `hop * speed` and nudging each frame to where it best
+// lines up with the previous one, so pitch stays put while tempo changes.
+// This function is serialized into the worklet, so it must not reference
+// anything outside its own body.
+export const createWsolaStretcher = (initial: Float32Array, initiallyComplete: boolean): WsolaStretcher => {
+  const frameSize = 1024;
+  const hop = frameSize / 2;
+  const tolerance = 256;
+
+  const hann = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+  }
+
+  // Grows by doubling as audio is appended; only the first `length` samples are real.
+  let samples = initial;
+  let length = initial.length;
+  let complete = initiallyComplete;
+
+  const overlap = new Float32Array(frameSize);
+  const pending = new Float32Array(hop);
+  let pendingRead = hop;
+  let pendingSource = 0;
+  let pendingSpeed = 1;
+  let analysisPos = 0;
+  let prevStart = -1;
+  let speed = 1;
+  let ended = false;
+
+  const sampleAt = (i: number) => (i >= 0 && i < length ? samples[i] : 0);
+
+  // Every sample a step might read must have arrived, unless no more are coming.
+  const canStep = () => complete || Math.round(analysisPos) + frameSize + tolerance <= length;
+
+  const findBestStart = (target: number) => {
+    const natural = prevStart + hop;
+    if (prevStart < 0 || target === natural) return target;
+    let best = target;
+    let bestScore = -Infinity;
+    for (let k = -tolerance; k <= tolerance; k += 2) {
+      const start = target + k;
+      if (start < 0) continue;
+      let score = 0;
+      for (let i = 0; i < hop; i += 2) {
+        score += sampleAt(start + i) * sampleAt(natural + i);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+    return best;
+  };
+
+  const step = () => {
+    const target = Math.round(analysisPos);
+    // Keep stepping through silence until the last real frame has been flushed.
+    if (target >= length + frameSize) {
+      ended = true;
+      return;
+    }
+    const start = findBestStart(target);
+    for (let i = 0; i < frameSize; i++) {
+      overlap[i] += sampleAt(start + i) * hann[i];
+    }
+    pending.set(overlap.subarray(0, hop));
+    overlap.copyWithin(0, hop);
+    overlap.fill(0, frameSize - hop);
+    pendingRead = 0;
+    pendingSource = target;
+    pendingSpeed = speed;
+    prevStart = start;
+    analysisPos += hop * speed;
+  };
+
+  return {
+    append: (more, isComplete) => {
+      if (length + more.length > samples.length) {
+        const grown = new Float32Array(Math.max(samples.length * 2, length + more.length));
+        grown.set(samples.subarray(0, length));
+        samples = grown;
+      }
+      samples.set(more, length);
+      length += more.length;
+      complete = isComplete;
+    },
+    seek: (sample) => {
+      analysisPos = Math.max(0, sample);
+      prevStart = -1;
+      overlap.fill(0);
+      pendingRead = hop;
+      pendingSource = analysisPos;
+      ended = false;
+    },
+    setSpeed: (value) => {
+      speed = value;
+    },
+    render: (out) => {
+      for (let i = 0; i < out.length; i++) {
+        if (pendingRead >= hop && !ended) {
+          if (!canStep()) {
+            out[i] = 0;
+            continue;
+          }
+          step();
+        }
+        out[i] = ended ? 0 : pending[pendingRead++];
+      }
+      return ended;
+    },
+    position: () => Math.min(pendingSource + pendingRead * pendingSpeed, length)
+  };
+};
+
+const buildProcessorSource = () => `
+const createWsolaStretcher = (${createWsolaStretcher.toString()});
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.stretcher = null;
+    this.sourceRate = sampleRate;
+    this.playing = false;
+    this.blocks = 0;
+    this.session = 0;
+    this.port.onmessage = (e) => this.handle(e.data);
+  }
+
+  handle(msg) {
+    if (msg.type === 'load') {
+      this.stretcher = createWsolaStretcher(msg.samples, msg.complete);
+      this.sourceRate = msg.sampleRate;
+      this.playing = false;
+    } else if (msg.type === 'append' && this.stretcher) {
+      this.stretcher.append(msg.samples, msg.complete);
+    } else if (msg.type === 'play' && this.stretcher) {
+      this.stretcher.seek(msg.position * this.sourceRate);
+      this.stretcher.setSpeed(msg.speed);
+      this.session = msg.session;
+      this.playing = true;
+    } else if (msg.type === 'pause') {
+      this.playing = false;
+    } else if (msg.type === 'speed' && this.stretcher) {
+      this.stretcher.setSpeed(msg.speed);
+    }
+  }
+
+  process(inputs, outputs) {
+    const out = outputs[0][0];
+    if (!this.playing || !this.stretcher || !out) return true;
+    if (this.stretcher.render(out)) {
+      this.playing = false;
+      this.port.postMessage({ type: 'ended', session: this.session });
+    } else if (++this.blocks % 8 === 0) {
+      this.port.postMessage({ type: 'position', position: this.stretcher.position() / this.sourceRate, session: this.session });
+    }
+    return true;
+  }
+}
+
+registerProcessor('${TIME_STRETCH_PROCESSOR}', TimeStretchProcessor);
+`;
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// The processor is shipped as a blob so it works without a separate build entry.
+export const loadTimeStretchWorklet = (context: BaseAudioContext): Promise<void> => {
+  let loading = loadedContexts.get(context);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([buildProcessorSource()], { type: 'application/javascript' }));
+    loading = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(context, loading);
+  }
+  return loading;
+};
@@ -0,0 +1,90 @@
+
+import { TopicDefinition, TopicId, LearnerProfile } from "../types";
+import { getAllRecords, putRecord, deleteRecord } from "./db";
+import { MIN_PARTICIPANTS, MAX_PARTICIPANTS } from "./validation";
+
+export const INTERVIEW_TOPIC_ID: TopicId = 'Job Interview';
+
+export const BUILT_IN_TOPICS: TopicDefinition[] = [
+  {
+    id: INTERVIEW_TOPIC_ID,
+    name: 'Job Interview',
+    instructions: 'The scenario MUST be a formal job interview for a {seniority} {jobTitle} role at a {companyType}. Discuss technical skills, leadership or growth, and career history.',
+    roles: ['interviewer', 'candidate'],
+    maxParticipants: 2,
+    defaultDuration: '1m',
+    isBuiltIn: true
+  },
+  {
+    id: 'Work Daily',
+    name: 'Work Daily',
+    instructions: 'The scenario MUST be a workplace interaction a {jobTitle} would really have, like a planning meeting, a discussion of a problem in their own field, or a 1-on-1 with their manager.',
+    roles: ['manager', 'peer'],
+    maxParticipants: 6,
+    defaultDuration: '1m',
+    isBuiltIn: true
+  },
+  {
+    id: 'Casual',
+    name: 'Casual Dialogue',
+    instructions: 'The scenario MUST be COMPLETELY NON-WORK RELATED. It should be about hobbies, travel, food, weekend plans, or sports. DO NOT mention projects, deadlines, code, or office work.',
+    roles: ['friend'],
+    maxParticipants: 4,
+    defaultDuration: '1m',
+    isBuiltIn: true
+  }
+];
+
+export const listTopics = async (): Promise<TopicDefinition[]> => {
+  const custom = await getAllRecords<TopicDefinition>('topics');
+  return [...BUILT_IN_TOPICS, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+// Passing the id of an existing topic updates it, so library entries keep pointing at it
+// after a rename.
+export const saveTopic = async (input: Omit<TopicDefinition, 'id' | 'isBuiltIn'> & { id?: TopicId }): Promise<TopicDefinition> => {
+  const name = input.name.trim();
+  if (!name) throw new Error("Topic name is required.");
+  if (BUILT_IN_TOPICS.some(t => t.id.toLowerCase() === name.toLowerCase() || t.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" is a built-in topic.`);
+  }
+  const custom = await getAllRecords<TopicDefinition>('topics');
+  if (custom.some(t => t.id !== input.id && t.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`You already have a topic called "${name}".`);
+  }
+  const roles = Array.from(new Set(input.roles.map(r => r.trim().toLowerCase()).filter(Boolean)));
+  if (!roles.length) throw new Error("Add at least one participant role.");
+
+  const topic: TopicDefinition = {
+    ...input,
+    id: input.id || `topic-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    instructions: input.instructions.trim(),
+    roles,
+    maxParticipants: Math.min(Math.max(Math.round(input.maxParticipants) || MIN_PARTICIPANTS, MIN_PARTICIPANTS), MAX_PARTICIPANTS),
+    isBuiltIn: false
+  };
+  await putRecord('topics', topic);
+  return topic;
+};
+
+export const deleteTopic = (id: TopicId): Promise<void> => {
+  return deleteRecord('topics', id);
+};
+
+export const findTopic = (topics: TopicDefinition[], id: TopicId): TopicDefinition =>
+  topics.find(t => t.id === id) || BUILT_IN_TOPICS[0];
+
+// Entries can outlive a deleted custom topic; those show their stored id instead.
+export const getTopicName = (topics: TopicDefinition[], id: TopicId): string =>
+  topics.find(t => t.id === id)?.name || id;
+
+export const renderTopicInstructions = (topic: TopicDefinition, profile: LearnerProfile): string => {
+  const values: Record<string, string> = {
+    jobTitle: profile.jobTitle,
+    seniority: profile.seniority,
+    companyType: profile.companyType || 'company',
+    techStack: profile.techStack.join(', ') || 'their usual tools'
+  };
+  return topic.instructions.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+};
@@ -0,0 +1,364 @@
+
+import { Scenario, DialogueTurn, DialogueRole, VocabularyItem, Voice, ChoiceQuestion, LanguageCode, DraftScenario, Register, CefrLevel, AnswerFeedback, AnswerCriterion } from "../types";
+import { readStringField, readCompleteItems } from "./partialJson";
+import { findPhraseSpans } from "./phrases";
+
+export const VOICES: Voice[] = [
+  'Kore', 'Puck', 'Charon', 'Aoede', 'Fenrir', 'Leda',
+  'Orus', 'Zephyr', 'Callirrhoe', 'Enceladus', 'Despina', 'Iapetus'
+];
+export const MIN_PARTICIPANTS = 2;
+export const MAX_PARTICIPANTS = 6;
+
+export interface ScenarioRules {
+  // The topic's allowed roles; every turn ends up with one of them.
+  roles: DialogueRole[];
+  // The model returns translations as plain strings, tagged here with `lang`.
+  lang: LanguageCode;
+  maxParticipants: number;
+}
+
+export interface ValidationResult<T> {
+  value: T | null;
+  // Problems that were fixed in place; useful for logging only.
+  repairs: string[];
+  // Problems that could not be fixed; non-empty means value is null.
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// For fields already checked with isNonEmptyString.
+const readString = (value: unknown): string => isNonEmptyString(value) ? value.trim() : '';
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const normalizeKey = (value: string) => value.trim().toLowerCase();
+
+// Common synonyms the model uses for the built-in topics' roles.
+const ROLE_ALIASES: Record<string, DialogueRole> = {
+  'hiring manager': 'interviewer',
+  'recruiter': 'interviewer',
+  'applicant': 'candidate',
+  'interviewee': 'candidate',
+  'lead': 'manager',
+  'team lead': 'manager',
+  'colleague': 'peer',
+  'coworker': 'peer',
+  'developer': 'peer'
+};
+
+const matchRole = (value: unknown, roles: DialogueRole[]): DialogueRole | null => {
+  if (typeof value !== 'string') return null;
+  const key = normalizeKey(value);
+  const alias = ROLE_ALIASES[key];
+  return roles.find(r => normalizeKey(r) === key) || (alias && roles.includes(alias) ? alias : null);
+};
+
+const REGISTERS: Register[] = ['formal', 'neutral', 'informal'];
+
+const matchRegister = (value: unknown): Register | null => {
+  if (typeof value !== 'string') return null;
+  return REGISTERS.find(r => r === normalizeKey(value)) || null;
+};
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+const matchCefr = (value: unknown): CefrLevel | null => {
+  if (typeof value !== 'string') return null;
+  return CEFR_LEVELS.find(l => l === value.trim().toUpperCase()) || null;
+};
+
+const readStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(isNonEmptyString).map(v => v.trim()) : [];
+
+const matchVoice = (value: unknown): Voice | null => {
+  if (typeof value !== 'string') return null;
+  return VOICES.find(v => v.toLowerCase() === normalizeKey(value)) || null;
+};
+
+export const parseJson = (text: string | undefined): { data: unknown; error: string | null } => {
+  if (!text) return { data: null, error: 'Response was empty.' };
+  try {
+    return { data: JSON.parse(text), error: null };
+  } catch (e) {
+    return { data: null, error: `Response was not valid JSON (${(e as Error).message}).` };
+  }
+};
+
+// Best-effort view of a scenario response that is still streaming, for display
+// only; the finished response goes through validateScenario as usual.
+export const readDraftScenario = (text: string, lang: LanguageCode): DraftScenario => ({
+  title: readStringField(text, 'title'),
+  context: readStringField(text, 'context'),
+  participants: readCompleteItems(text, 'participants')
+    .filter(isObject)
+    .filter(p => isNonEmptyString(p.name))
+    .map(p => ({ name: readString(p.name), role: String(p.role || ''), voice: matchVoice(p.voice) || VOICES[0] })),
+  dialogue: readCompleteItems(text, 'dialogue')
+    .filter(isObject)
+    .filter(t => isNonEmptyString(t.speaker) && isNonEmptyString(t.text))
+    .map(t => ({
+      speaker: readString(t.speaker),
+      text: readString(t.text),
+      translation: { lang, text: readString(t.translation) },
+      role: String(t.role || '')
+    }))
+});
+
+export const validateScenario = (raw: unknown, { roles, lang, maxParticipants }: ScenarioRules): ValidationResult<Omit<Scenario, 'id'>> => {
+  const repairs: string[] = [];
+  const errors: string[] = [];
+  const fail = (): ValidationResult<Omit<Scenario, 'id'>> => ({ value: null, repairs, errors });
+
+  if (!isObject(raw)) {
+    errors.push('Top-level value must be a JSON object.');
+    return fail();
+  }
+
+  if (!isNonEmptyString(raw.title)) errors.push('"title" must be a non-empty string.');
+  if (!isNonEmptyString(raw.context)) errors.push('"context" must be a non-empty string.');
+
+  const maxCount = Math.min(Math.max(maxParticipants, MIN_PARTICIPANTS), MAX_PARTICIPANTS);
+  if (!Array.isArray(raw.participants) || raw.participants.length < MIN_PARTICIPANTS || raw.participants.length > maxCount) {
+    errors.push(`"participants" must contain between ${MIN_PARTICIPANTS} and ${maxCount} entries.`);
+    return fail();
+  }
+
+  const participants: Scenario['participants'] = [];
+  raw.participants.forEach((p: unknown, i: number) => {
+    if (!isObject(p) || !isNonEmptyString(p.name)) {
+      errors.push(`participants[${i}].name must be a non-empty string.`);
+      return;
+    }
+    const name = p.name.trim();
+    let voice = matchVoice(p.voice);
+    if (!voice) {
+      voice = VOICES[i % VOICES.length];
+      repairs.push(`participants[${i}].voice "${p.voice}" replaced with "${voice}".`);
+    } else if (voice !== p.voice) {
+      repairs.push(`participants[${i}].voice "${p.voice}" normalized to "${voice}".`);
+    }
+    participants.push({ name, role: isNonEmptyString(p.role) ? p.role.trim() : roles[i % roles.length], voice });
+  });
+  if (errors.length) return fail();
+
+  if (new Set(participants.map(p => normalizeKey(p.name))).size !== participants.length) {
+    errors.push('Participant names must be distinct.');
+    return fail();
+  }
+  participants.forEach((p, i) => {
+    if (participants.slice(0, i).every(other => other.voice !== p.voice)) return;
+    const unused = VOICES.find(v => participants.every(other => other.voice !== v))!;
+    repairs.push(`participants[${i}].voice changed to "${unused}" so every speaker sounds different.`);
+    p.voice = unused;
+  });
+
+  if (!Array.isArray(raw.dialogue) || raw.dialogue.length === 0) {
+    errors.push('"dialogue" must be a non-empty array.');
+    return fail();
+  }
+
+  const dialogue: DialogueTurn[] = [];
+  raw.dialogue.forEach((t: unknown, i: number) => {
+    if (!isObject(t)) {
+      errors.push(`dialogue[${i}] must be an object.`);
+      return;
+    }
+    if (!isNonEmptyString(t.text)) errors.push(`dialogue[${i}].text must be a non-empty string.`);
+    if (!isNonEmptyString(t.translation)) errors.push(`dialogue[${i}].translation must be a non-empty string.`);
+
+    const speaker = t.speaker;
+    const participant = isNonEmptyString(speaker)
+      ? participants.find(p => normalizeKey(p.name) === normalizeKey(speaker))
+      : undefined;
+    if (!participant) {
+      errors.push(`dialogue[${i}].speaker "${t.speaker}" does not match any participant name (${participants.map(p => p.name).join(', ')}).`);
+      return;
+    }
+    if (participant.name !== t.speaker) {
+      repairs.push(`dialogue[${i}].speaker "${t.speaker}" normalized to "${participant.name}".`);
+    }
+
+    let role = matchRole(t.role, roles);
+    if (!role) {
+      role = matchRole(participant.role, roles) || roles[participants.indexOf(participant) % roles.length];
+      repairs.push(`dialogue[${i}].role "${t.role}" replaced with "${role}".`);
+    }
+
+    if (isNonEmptyString(t.text) && isNonEmptyString(t.translation)) {
+      dialogue.push({ speaker: participant.name, text: t.text.trim(), translation: { lang, text: t.translation.trim() }, role });
+    }
+  });
+
+  const vocabulary: VocabularyItem[] = [];
+  if (Array.isArray(raw.vocabulary)) {
+    raw.vocabulary.forEach((v: unknown, i: number) => {
+      const item = validateVocabularyItem(v, lang);
+      if (item.value) {
+        vocabulary.push(item.value);
+      } else {
+        repairs.push(`vocabulary[${i}] dropped: ${item.errors.join(' ')}`);
+      }
+    });
+  } else {
+    repairs.push('"vocabulary" was missing and has been set to an empty list.');
+  }
+
+  // Idioms are underlined in the dialogue, so each one must appear in some turn as written.
+  const idioms: VocabularyItem[] = [];
+  if (Array.isArray(raw.idioms)) {
+    raw.idioms.forEach((v: unknown, i: number) => {
+      const item = validateVocabularyItem(v, lang);
+      if (!item.value) {
+        repairs.push(`idioms[${i}] dropped: ${item.errors.join(' ')}`);
+      } else if (!dialogue.some(turn => findPhraseSpans(turn.text, [item.value!.word]).length)) {
+        repairs.push(`idioms[${i}] "${item.value.word}" dropped: it does not appear in the dialogue.`);
+      } else {
+        idioms.push(item.value);
+      }
+    });
+  }
+
+  if (errors.length) return fail();
+
+  return {
+    value: { title: readString(raw.title), context: readString(raw.context), participants, dialogue, vocabulary, idioms },
+    repairs,
+    errors
+  };
+};
+
+export const validateVocabularyItem = (raw: unknown, lang: LanguageCode): ValidationResult<VocabularyItem> => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return { value: null, repairs: [], errors: ['Definition must be a JSON object.'] };
+  }
+  const fields = ['word', 'partOfSpeech', 'englishMeaning', 'translation'] as const;
+  fields.forEach(field => {
+    if (!isNonEmptyString(raw[field])) errors.push(`"${field}" must be a non-empty string.`);
+  });
+  if (errors.length) return { value: null, repairs: [], errors };
+
+  const register = matchRegister(raw.register);
+  const cefr = matchCefr(raw.cefr);
+  const ipa = isNonEmptyString(raw.ipa) ? raw.ipa.trim().replace(/^[\/\[]|[\/\]]$/g, '') : '';
+  const [alternatives, examples, synonyms, collocations] = [raw.alternatives, raw.examples, raw.synonyms, raw.collocations].map(readStringList);
+
+  return {
+    value: {
+      word: readString(raw.word),
+      partOfSpeech: readString(raw.partOfSpeech).toLowerCase(),
+      englishMeaning: readString(raw.englishMeaning),
+      translation: { lang, text: readString(raw.translation) },
+      ...(register && { register }),
+      ...(alternatives.length && { alternatives }),
+      ...(ipa && { ipa }),
+      ...(cefr && { cefr }),
+      ...(examples.length && { examples: examples.slice(0, 3) }),
+      ...(synonyms.length && { synonyms }),
+      ...(collocations.length && { collocations })
+    },
+    repairs: [],
+    errors
+  };
+};
+
+export const validateQuizQuestions = (raw: unknown, turnCount: number): ValidationResult<ChoiceQuestion[]> => {
+  const repairs: string[] = [];
+  const errors: string[] = [];
+  const list = isObject(raw) ? raw.questions : raw;
+
+  if (!Array.isArray(list) || list.length === 0) {
+    return { value: null, repairs, errors: ['"questions" must be a non-empty array.'] };
+  }
+
+  const questions: ChoiceQuestion[] = [];
+  list.forEach((q: unknown, i: number) => {
+    if (!isObject(q)) {
+      errors.push(`questions[${i}] must be an object.`);
+      return;
+    }
+    const kind = q.kind === 'content' || q.kind === 'vocabulary' ? q.kind : null;
+    if (!kind) errors.push(`questions[${i}].kind must be "content" or "vocabulary".`);
+    if (!isNonEmptyString(q.prompt)) errors.push(`questions[${i}].prompt must be a non-empty string.`);
+
+    const rawOptions: unknown[] = Array.isArray(q.options) ? q.options : [];
+    const options = rawOptions.filter(isNonEmptyString).map(o => o.trim());
+    if (options.length < 2 || new Set(options.map(normalizeKey)).size !== options.length) {
+      errors.push(`questions[${i}].options must contain at least 2 distinct answers.`);
+    }
+    // The index refers to the options as the model wrote them, blanks included.
+    let answerIndex = -1;
+    if (isInteger(q.answerIndex) && isNonEmptyString(rawOptions[q.answerIndex])) {
+      answerIndex = rawOptions.slice(0, q.answerIndex).filter(isNonEmptyString).length;
+      if (answerIndex !== q.answerIndex) repairs.push(`questions[${i}].answerIndex moved past blank options.`);
+    } else {
+      errors.push(`questions[${i}].answerIndex must point at one of its options.`);
+    }
+    let turnIndex = isInteger(q.turnIndex) ? q.turnIndex : -1;
+    if (turnIndex < 0 || turnIndex >= turnCount) {
+      repairs.push(`questions[${i}].turnIndex ${q.turnIndex} clamped to the dialogue.`);
+      turnIndex = Math.max(0, Math.min(Number(q.turnIndex) || 0, turnCount - 1));
+    }
+
+    if (kind && isNonEmptyString(q.prompt)) {
+      questions.push({ id: `${kind}-${i}`, kind, prompt: q.prompt.trim(), options, answerIndex, turnIndex });
+    }
+  });
+
+  if (errors.length) return { value: null, repairs, errors };
+  return { value: questions, repairs, errors };
+};
+
+export const ANSWER_CRITERIA: AnswerCriterion[] = ['grammar', 'vocabulary', 'relevance', 'structure'];
+
+export const validateAnswerFeedback = (raw: unknown): ValidationResult<AnswerFeedback> => {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  if (!isObject(raw)) {
+    return { value: null, repairs, errors: ['Feedback must be a JSON object.'] };
+  }
+  (['correctedAnswer', 'rewrite', 'summary'] as const).forEach(field => {
+    if (!isNonEmptyString(raw[field])) errors.push(`"${field}" must be a non-empty string.`);
+  });
+
+  const structure = isObject(raw.structure) ? raw.structure : {};
+  if (!isNonEmptyString(structure.comment)) errors.push('"structure.comment" must be a non-empty string.');
+  let framework: AnswerFeedback['structure']['framework'] = 'general';
+  if (typeof structure.framework === 'string' && structure.framework.trim().toUpperCase() === 'STAR') {
+    framework = 'STAR';
+  } else if (structure.framework !== 'general') {
+    repairs.push(`"structure.framework" ${JSON.stringify(structure.framework)} replaced with "general".`);
+  }
+
+  const rawScores = isObject(raw.scores) ? raw.scores : {};
+  const scores = {} as Record<AnswerCriterion, number>;
+  ANSWER_CRITERIA.forEach(criterion => {
+    const score = Number(rawScores[criterion]);
+    if (!Number.isFinite(score)) {
+      errors.push(`"scores.${criterion}" must be a number from 1 to 5.`);
+      return;
+    }
+    scores[criterion] = Math.min(5, Math.max(1, Math.round(score)));
+    if (scores[criterion] !== score) repairs.push(`"scores.${criterion}" ${score} clamped to ${scores[criterion]}.`);
+  });
+
+  if (errors.length) return { value: null, repairs, errors };
+
+  return {
+    value: {
+      correctedAnswer: readString(raw.correctedAnswer),
+      rewrite: readString(raw.rewrite),
+      structure: { framework, comment: readString(structure.comment), missing: readStringList(structure.missing) },
+      scores,
+      summary: readString(raw.summary)
+    },
+    repairs,
+    errors
+  };
+};
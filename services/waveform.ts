@@ -0,0 +1,53 @@
+
+// Peak amplitude per bucket, scaled so the loudest bucket is 1. Serialized
+// into the worker below, so it must not reference anything outside its body.
+export const computePeaks = (samples: Float32Array, buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  const bucketSize = samples.length / buckets;
+  let max = 0;
+  for (let b = 0; b < buckets; b++) {
+    const from = Math.floor(b * bucketSize);
+    const to = Math.min(samples.length, Math.floor((b + 1) * bucketSize));
+    let peak = 0;
+    for (let i = from; i < to; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[b] = peak;
+    if (peak > max) max = peak;
+  }
+  if (max > 0) {
+    for (let b = 0; b < buckets; b++) peaks[b] /= max;
+  }
+  return peaks;
+};
+
+const buildWorkerSource = () => `
+const computePeaks = (${computePeaks.toString()});
+
+self.onmessage = (e) => {
+  const peaks = computePeaks(e.data.samples, e.data.buckets);
+  self.postMessage(peaks, [peaks.buffer]);
+};
+`;
+
+// Scanning a five-minute track blocks for a noticeable moment, so it runs off
+// the main thread. `samples` is transferred and unusable afterwards.
+export const computePeaksInWorker = (samples: Float32Array, buckets: number): Promise<Float32Array> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([buildWorkerSource()], { type: 'application/javascript' }));
+    const worker = new Worker(url);
+    const finish = () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+    worker.onmessage = (e: MessageEvent<Float32Array>) => {
+      finish();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message));
+    };
+    worker.postMessage({ samples, buckets }, [samples.buffer]);
+  });
@@ -1,21 +1,61 @@
 
 export type Level = 'Beginner' | 'Intermediate' | 'Advanced';
-export type Topic = 'Job Interview' | 'Work Daily' | 'Casual';
 export type Duration = '1m' | '3m' | '5m';
 
+// Built-in topic ids are their original names, so saved entries keep resolving.
+export type TopicId = string;
+// Always one of the roles allowed by the scenario's topic.
+export type DialogueRole = string;
+export type Voice =
+  | 'Kore' | 'Puck' | 'Charon' | 'Aoede' | 'Fenrir' | 'Leda'
+  | 'Orus' | 'Zephyr' | 'Callirrhoe' | 'Enceladus' | 'Despina' | 'Iapetus';
+
+export type LanguageCode = 'fa' | 'ar' | 'tr' | 'es';
+
+export interface Translation {
+  lang: LanguageCode;
+  text: string;
+}
+
 export interface DialogueTurn {
   speaker: string;
   text: string;
-  persianText: string;
-  role: 'interviewer' | 'candidate' | 'manager' | 'peer' | 'friend';
+  translation: Translation;
+  role: DialogueRole;
 }
 
+export type Register = 'formal' | 'neutral' | 'informal';
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
 export interface VocabularyItem {
+  // May be a multi-word phrase or idiom, e.g. "circle back".
   word: string;
   partOfSpeech: string;
   englishMeaning: string;
-  persianMeaning: string;
+  translation: Translation;
   isCustom?: boolean;
+  sourceSentence?: string;
+  // Given for idioms, phrasal verbs and collocations.
+  register?: Register;
+  // Other ways to say the same thing, e.g. in a different register.
+  alternatives?: string[];
+  // The fields below are left out when the model doesn't return them.
+  // General American IPA, without slashes.
+  ipa?: string;
+  cefr?: CefrLevel;
+  examples?: string[];
+  synonyms?: string[];
+  collocations?: string[];
+}
+
+export interface TurnTiming {
+  start: number;
+  end: number;
+}
+
+export interface TurnTimings {
+  normal?: TurnTiming[];
 }
 
 export interface Scenario {
@@ -25,10 +65,196 @@ export interface Scenario {
   participants: {
     name: string;
     role: string;
-    voice: 'Kore' | 'Puck';
+    voice: Voice;
   }[];
   dialogue: DialogueTurn[];
   vocabulary: VocabularyItem[];
+  // Idioms, phrasal verbs and collocations used in the dialogue, as they appear in it.
+  idioms: VocabularyItem[];
+  // Seconds into the matching audio variant where each dialogue turn starts and ends.
+  timings?: TurnTimings;
+  // Present on interviews tailored to a real posting, so they can be regenerated.
+  interviewSource?: InterviewSource;
+}
+
+export interface InterviewSource {
+  jobDescription: string;
+  cv?: string;
+}
+
+export interface SynthesizedAudio {
+  data: string;
+  timings: TurnTiming[];
+}
+
+// A piece of dialogue audio delivered while the rest is still being synthesized.
+// `timings` covers the turns in this piece, in seconds from the start of the track.
+export interface AudioChunk {
+  pcm: Uint8Array;
+  timings: TurnTiming[];
+}
+
+// What has arrived so far of a scenario that is still being written.
+export type DraftScenario = Pick<Scenario, 'participants' | 'dialogue'> & Partial<Pick<Scenario, 'title' | 'context'>>;
+
+export interface AudioVariants {
+  normal?: string;
+}
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  level: Level;
+  topic: TopicId;
+  duration: Duration;
+  scenario: Scenario;
+  audio: AudioVariants;
+  customVocab: VocabularyItem[];
+  visibleTranslations: Record<number, boolean>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Recognition shows the English word; recall shows its translation.
+export type ReviewDirection = 'recognition' | 'recall';
+
+export interface SrsSchedule {
+  easiness: number;
+  // Days until the next review after a successful recall.
+  interval: number;
+  repetitions: number;
+  due: number;
+  lastReviewed?: number;
+}
+
+export interface DeckEntry {
+  id: string;
+  item: VocabularyItem;
+  // The sentence the word was met in, shown on the card as a memory cue.
+  context: string;
+  scenarioId?: string;
+  schedule: Record<ReviewDirection, SrsSchedule>;
+  createdAt: number;
+}
+
+export interface ReviewCard {
+  entry: DeckEntry;
+  direction: ReviewDirection;
+}
+
+export type ChoiceQuestionKind = 'content' | 'speaker' | 'vocabulary';
+
+export interface ChoiceQuestion {
+  id: string;
+  kind: ChoiceQuestionKind;
+  prompt: string;
+  options: string[];
+  answerIndex: number;
+  // The dialogue turn that contains the answer.
+  turnIndex: number;
+}
+
+export interface OrderingQuestion {
+  id: string;
+  kind: 'ordering';
+  prompt: string;
+  // Listed in the order they happen in the dialogue.
+  events: { text: string; turnIndex: number }[];
+}
+
+export type QuizQuestion = ChoiceQuestion | OrderingQuestion;
+
+export interface QuizAnswer {
+  questionId: string;
+  // Chosen option index, or the event order the learner picked.
+  response: number | number[];
+  correct: boolean;
+}
+
+export interface QuizResult {
+  id: string;
+  scenarioId: string;
+  takenAt: number;
+  score: number;
+  total: number;
+  answers: QuizAnswer[];
+}
+
+export type AnswerCriterion = 'grammar' | 'vocabulary' | 'relevance' | 'structure';
+
+export interface AnswerFeedback {
+  // The learner's answer with only grammar, spelling and word-choice mistakes fixed.
+  // Shown as an inline diff against what they wrote.
+  correctedAnswer: string;
+  // How a fluent professional would give the same answer.
+  rewrite: string;
+  structure: {
+    // STAR (Situation, Task, Action, Result) for behavioral questions.
+    framework: 'STAR' | 'general';
+    comment: string;
+    // STAR parts, or key points the interviewer expects, that the answer leaves out.
+    missing: string[];
+  };
+  // 1-5 per criterion.
+  scores: Record<AnswerCriterion, number>;
+  summary: string;
+}
+
+// A written answer to one interview question, kept so progress shows over time.
+export interface AnswerAttempt {
+  id: string;
+  scenarioId: string;
+  // The candidate turn the learner answered instead of.
+  turnIndex: number;
+  question: string;
+  answer: string;
+  feedback: AnswerFeedback;
+  createdAt: number;
+}
+
+export interface TopicDefinition {
+  id: TopicId;
+  name: string;
+  // May reference {jobTitle}, {seniority}, {companyType} and {techStack} from the learner profile.
+  instructions: string;
+  roles: DialogueRole[];
+  // Between MIN_PARTICIPANTS and MAX_PARTICIPANTS; meetings want more than two.
+  maxParticipants: number;
+  defaultDuration: Duration;
+  isBuiltIn: boolean;
+}
+
+export type CacheKind = 'definition' | 'audio' | 'pronunciation';
+
+// Bookkeeping for one cached response. The response itself lives in a
+// separate store so stats and eviction never have to load audio.
+export interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  // Approximate size of the stored response in bytes.
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheStats {
+  limit: number;
+  byKind: Record<CacheKind, { entries: number; size: number }>;
+  // Counted since the app was opened.
+  hits: number;
+  misses: number;
+}
+
+export type Seniority = 'Junior' | 'Mid-level' | 'Senior' | 'Lead' | 'Manager';
+
+export interface LearnerProfile {
+  jobTitle: string;
+  seniority: Seniority;
+  techStack: string[];
+  companyType: string;
+  nativeLanguage: string;
+  translationLanguage: LanguageCode;
+  weakAreas: string[];
 }
 
 export enum AppStatus {
@@ -39,3 +265,22 @@ export enum AppStatus {
   READY = 'READY',
   ERROR = 'ERROR'
 }
+
+export interface PracticeSession {
+  id: string;
+  scenarioId: string;
+  title: string;
+  level: Level;
+  topic: TopicId;
+  // Kept so sessions still read well after a custom topic is deleted.
+  topicName: string;
+  duration: Duration;
+  startedAt: number;
+  lastActiveAt: number;
+  secondsListened: number;
+  translationsRevealed: number;
+  wordsLookedUp: string[];
+  quizScores: { score: number; total: number }[];
+  // Accuracy of each dictation line checked, from 0 to 1.
+  dictationScores: number[];
+}